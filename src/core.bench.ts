@@ -0,0 +1,87 @@
+import { Effect, Fiber, Stream } from 'effect'
+import { bench, describe } from 'vitest'
+import { END, StateEquality, makeStateStream } from './core'
+import { makeTestStoreService } from './utils/makeTestStoreService'
+
+type State = { items: { id: number; done: boolean }[]; ticks: number }
+
+const ACTIONS = 5000
+
+const reducer = (state: State, action: { type: string }): State =>
+  action.type === 'tick' ? { ...state, ticks: state.ticks + 1 } : state
+
+/**
+ * Dispatches `ACTIONS` unrelated actions to a store watched by a selector
+ * building a new array on every call, and returns how many values the state
+ * stream emitted
+ */
+const run = (equals: StateEquality): Promise<number> => {
+  const testStore = makeTestStoreService<State>({
+    initialState: {
+      items: Array.from({ length: 100 }, (_, id) => ({
+        id,
+        done: id % 2 === 0,
+      })),
+      ticks: 0,
+    },
+    reducer,
+  })
+
+  const program = Effect.gen(function* () {
+    let emissions = 0
+
+    const fiber = yield* Effect.fork(
+      makeStateStream((state: State) => state.items.filter(i => i.done), {
+        equals,
+      }).pipe(Stream.runForEach(() => Effect.sync(() => emissions++))),
+    )
+    yield* testStore.awaitListeners()
+
+    for (let i = 0; i < ACTIONS; i++) yield* testStore.emit({ type: 'tick' })
+    // Completes the stream once every queued state went through it
+    yield* testStore.emit(END)
+    yield* Fiber.join(fiber)
+
+    return emissions
+  })
+
+  return Effect.runPromise(program.pipe(Effect.provide(testStore.layer)))
+}
+
+const reported = new Set<StateEquality>()
+
+/**
+ * Benchmarks a strategy, failing when it does not emit the `expected` number
+ * of values, and prints that number once
+ */
+const benchEmissions = (
+  equals: 'reference' | 'shallow' | 'deep',
+  expected: number,
+): void => {
+  bench(equals, async () => {
+    const emissions = await run(equals)
+
+    if (emissions !== expected) {
+      throw new Error(
+        `[core.bench] ${equals} emitted ${emissions} values, expected ${expected}`,
+      )
+    }
+
+    if (!reported.has(equals)) {
+      reported.add(equals)
+      console.log(`${equals}: ${emissions} emissions for ${ACTIONS} actions`)
+    }
+  })
+}
+
+describe(`makeStateStream with ${ACTIONS} unrelated actions`, () => {
+  // Emits the initial value, then once per action, as every filter() call
+  // returns a new array
+  benchEmissions('reference', ACTIONS + 1)
+
+  // Emits only the initial value
+  benchEmissions('shallow', 1)
+
+  // Emits only the initial value
+  benchEmissions('deep', 1)
+})
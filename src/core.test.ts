@@ -1,29 +1,81 @@
-import { Deferred, Effect, Stream } from 'effect'
+import {
+  Cause,
+  Chunk,
+  Data,
+  Deferred,
+  Effect,
+  Exit,
+  Fiber,
+  Queue,
+  Schedule,
+  Stream,
+  TestClock,
+  TestContext,
+} from 'effect'
 import { beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest'
+import { createStore } from 'redux'
 import {
   Store,
   StoreService,
+  ActionChannelOverflowError,
+  END,
+  ActionPattern,
+  ActionStreamItem,
+  allOf,
+  anyOf,
+  not,
+  actionChannel,
+  allActions,
+  raceActions,
   actionPattern,
+  StateChange,
+  makeStateChangeStream,
   makeStateStream,
   makeStoreService,
+  onStateTransition,
   makeActionStream,
+  PutAndAwaitRejectedError,
+  PutAndAwaitTimeoutError,
   put,
+  putAndAwait,
   select,
   take,
   takeEvery,
   takeLatest,
+  takeLeading,
+  takeQueue,
+  takeWith,
+  waitForState,
+  WaitForStateTimeoutError,
+  takeLatestBy,
+  takeLeadingBy,
+  takeQueueBy,
+  debounce,
+  throttle,
+  bufferTime,
 } from './core'
-import { ActionListener } from './utils/subscribeStoreActionEnhancerFactory'
-
-// Helper to create action creators
-const createAction = <P = void>(
-  type: string,
-): ((payload: P) => { type: string; payload: P }) & { type: string } => {
-  const actionCreator = (payload: P): { type: string; payload: P } => ({
+import { EndOfStream } from './utils/endOfStream'
+import { makeTestStoreService } from './utils/makeTestStoreService'
+import { SagaErrorReporter } from './utils/supervise'
+import {
+  ActionListener,
+  subscribeStoreActionEnhancerFactory,
+} from './utils/subscribeStoreActionEnhancerFactory'
+
+// Helper to create Redux Toolkit like action creators
+const createAction = <P = void, T extends string = string>(
+  type: T,
+): ((payload: P) => { type: T; payload: P }) & {
+  type: T
+  match: (action: unknown) => action is { type: T; payload: P }
+} => {
+  const actionCreator = (payload: P): { type: T; payload: P } => ({
     type,
     payload,
   })
   actionCreator.type = type
+  actionCreator.match = (action: unknown): action is { type: T; payload: P } =>
+    (action as { type?: unknown } | null)?.type === type
   return actionCreator
 }
 
@@ -37,6 +89,7 @@ describe('effect-saga core', () => {
       [Symbol.observable]: vi.fn(),
       dispatch: vi.fn(),
       getState: vi.fn(() => initialState),
+      getStateVersion: vi.fn(() => 0),
       subscribe: vi.fn(),
       replaceReducer: vi.fn(),
       subscribeAction: vi.fn(() => {
@@ -46,6 +99,51 @@ describe('effect-saga core', () => {
     }
   })
 
+  type Emit = (action: { type: string; [key: string]: unknown }) => void
+
+  const makeEmittingLayer = (
+    // Called on every dispatch, e.g. to reply synchronously
+    onDispatch?: (action: any, emit: Emit) => void,
+  ): {
+    layer: ReturnType<typeof makeStoreService>
+    listeners: Set<ActionListener>
+    emit: Emit
+    awaitListeners: (count: number) => Effect.Effect<void>
+  } => {
+    const listeners = new Set<ActionListener>()
+    let version = 0
+    const emit: Emit = action => {
+      version += 1
+      listeners.forEach(l =>
+        l(action, initialState, { version, state: initialState }),
+      )
+    }
+    const layer = makeStoreService({
+      ...mockStore,
+      getStateVersion: () => version,
+      dispatch: action => {
+        onDispatch?.(action, emit)
+        return action
+      },
+      subscribeAction: listener => {
+        listeners.add(listener)
+        return () => {
+          listeners.delete(listener)
+        }
+      },
+    })
+
+    return {
+      layer,
+      listeners,
+      emit,
+      awaitListeners: count =>
+        Effect.gen(function* () {
+          while (listeners.size < count) yield* Effect.sleep('1 millis')
+        }),
+    }
+  }
+
   describe('StoreService', () => {
     it('should create a store service layer', async () => {
       const layer = makeStoreService(mockStore)
@@ -116,6 +214,86 @@ describe('effect-saga core', () => {
     })
   })
 
+  describe('actionPattern inputs', () => {
+    const increment = createAction<number, 'counter/increment'>(
+      'counter/increment',
+    )
+    const decrement = createAction<number, 'counter/decrement'>(
+      'counter/decrement',
+    )
+
+    it('should accept action creators and infer their action type', () => {
+      const pattern = actionPattern(increment)
+
+      expectTypeOf(pattern).toEqualTypeOf<
+        ActionPattern<{ type: 'counter/increment'; payload: number }>
+      >()
+      expect(pattern(increment(1))).toBe(true)
+      expect(pattern(decrement(1))).toBe(false)
+    })
+
+    it('should accept lists mixing creators and types', () => {
+      const pattern = actionPattern([increment, 'counter/reset'])
+
+      expect(pattern(increment(1))).toBe(true)
+      expect(pattern({ type: 'counter/reset' })).toBe(true)
+      expect(pattern(decrement(1))).toBe(false)
+    })
+
+    it('should accept type guards and predicates', () => {
+      const isBig = (action: any): boolean => action.payload > 10
+      const isIncrement = (
+        action: any,
+      ): action is ReturnType<typeof increment> =>
+        action.type === increment.type
+
+      expectTypeOf(actionPattern(isIncrement)).toEqualTypeOf<
+        ActionPattern<{ type: 'counter/increment'; payload: number }>
+      >()
+      expect(actionPattern(isBig)(increment(11))).toBe(true)
+      expect(actionPattern(isBig)(increment(1))).toBe(false)
+      // Non-actions never match
+      expect(actionPattern(isBig)({ payload: 11 })).toBe(false)
+    })
+
+    it('should combine patterns with anyOf, allOf and not', () => {
+      const isBig = (action: any): boolean => action.payload > 10
+
+      const eitherPattern = anyOf(increment, decrement)
+      expectTypeOf(eitherPattern).toEqualTypeOf<
+        ActionPattern<
+          | { type: 'counter/increment'; payload: number }
+          | { type: 'counter/decrement'; payload: number }
+        >
+      >()
+      expect(eitherPattern(increment(1))).toBe(true)
+      expect(eitherPattern(decrement(1))).toBe(true)
+      expect(eitherPattern({ type: 'other' })).toBe(false)
+
+      const bigIncrement = allOf(increment, isBig)
+      expect(bigIncrement(increment(11))).toBe(true)
+      expect(bigIncrement(increment(1))).toBe(false)
+      expect(bigIncrement(decrement(11))).toBe(false)
+
+      const notIncrement = not(increment)
+      expect(notIncrement(increment(1))).toBe(false)
+      expect(notIncrement(decrement(1))).toBe(true)
+      expect(notIncrement(null)).toBe(false)
+    })
+
+    it('should let makeActionStream infer the action from a creator', () => {
+      const stream = makeActionStream(increment)
+
+      expectTypeOf(stream).toEqualTypeOf<
+        Stream.Stream<
+          ActionStreamItem<{ type: 'counter/increment'; payload: number }>,
+          never,
+          StoreService
+        >
+      >()
+    })
+  })
+
   describe('makeActionStream', () => {
     it('should emit matching actions with state', async () => {
       const listeners = new Set<ActionListener>()
@@ -149,10 +327,15 @@ describe('effect-saga core', () => {
         yield* Deferred.await(subscribedSignal)
 
         // Should be ignored
-        listeners.forEach(listener => listener({ type: 'other' }, 1))
+        listeners.forEach(listener =>
+          listener({ type: 'other' }, 1, { version: 1, state: initialState }),
+        )
         // Should be emitted
         listeners.forEach(listener =>
-          listener({ type: 'test/action', payload: 1 }, 1),
+          listener({ type: 'test/action', payload: 1 }, 1, {
+            version: 2,
+            state: initialState,
+          }),
         )
 
         // wait fiber to finish
@@ -162,6 +345,7 @@ describe('effect-saga core', () => {
         expect(emitted[0].action).toEqual({ type: 'test/action', payload: 1 })
         expect(emitted[0].stateSnapshot).toEqual(1)
         expect(emitted[0].state).toEqual(initialState)
+        expect(emitted[0].version).toEqual(2)
       })
 
       await Effect.runPromise(program.pipe(Effect.provide(layer)))
@@ -178,6 +362,7 @@ describe('effect-saga core', () => {
             action: { type: 'A'; payload: number }
             stateSnapshot: unknown
             state: unknown
+            version: number
           },
           never,
           StoreService
@@ -186,6 +371,143 @@ describe('effect-saga core', () => {
     })
   })
 
+  describe('actionChannel', () => {
+    it('should buffer actions dispatched between takes', async () => {
+      const { layer, emit } = makeEmittingLayer()
+
+      const program = Effect.gen(function* () {
+        const channel = yield* actionChannel(actionPattern('test/action'))
+
+        emit({ type: 'test/action', payload: 1 })
+        emit({ type: 'other' })
+        emit({ type: 'test/action', payload: 2 })
+
+        const first = yield* take(channel)
+        emit({ type: 'test/action', payload: 3 })
+        const second = yield* take(channel)
+        const third = yield* take(channel)
+
+        return [first, second, third].map(v => (v.action as any).payload)
+      })
+
+      const payloads = await Effect.runPromise(
+        program.pipe(Effect.scoped, Effect.provide(layer)),
+      )
+      expect(payloads).toEqual([1, 2, 3])
+    })
+
+    it('should keep the latest actions with a sliding buffer', async () => {
+      const { layer, emit } = makeEmittingLayer()
+
+      const program = Effect.gen(function* () {
+        const channel = yield* actionChannel(actionPattern('test/action'), {
+          strategy: 'sliding',
+          size: 2,
+        })
+
+        emit({ type: 'test/action', payload: 1 })
+        emit({ type: 'test/action', payload: 2 })
+        emit({ type: 'test/action', payload: 3 })
+
+        const values = yield* channel.pipe(Stream.take(2), Stream.runCollect)
+        return [...values].map(v => (v.action as any).payload)
+      })
+
+      const payloads = await Effect.runPromise(
+        program.pipe(Effect.scoped, Effect.provide(layer)),
+      )
+      expect(payloads).toEqual([2, 3])
+    })
+
+    it('should keep the first actions with a dropping buffer', async () => {
+      const { layer, emit } = makeEmittingLayer()
+
+      const program = Effect.gen(function* () {
+        const channel = yield* actionChannel(actionPattern('test/action'), {
+          strategy: 'dropping',
+          size: 2,
+        })
+
+        emit({ type: 'test/action', payload: 1 })
+        emit({ type: 'test/action', payload: 2 })
+        emit({ type: 'test/action', payload: 3 })
+        emit({ type: 'test/action', payload: 4 })
+
+        const first = yield* take(channel)
+        const second = yield* take(channel)
+        emit({ type: 'test/action', payload: 5 })
+        const third = yield* take(channel)
+
+        return [first, second, third].map(v => (v.action as any).payload)
+      })
+
+      const payloads = await Effect.runPromise(
+        program.pipe(Effect.scoped, Effect.provide(layer)),
+      )
+      expect(payloads).toEqual([1, 2, 5])
+    })
+
+    it('should fail when a fixed buffer overflows', async () => {
+      const { layer, emit } = makeEmittingLayer()
+
+      const program = Effect.gen(function* () {
+        const channel = yield* actionChannel(actionPattern('test/action'), {
+          strategy: 'fixed',
+          size: 2,
+        })
+
+        emit({ type: 'test/action', payload: 1 })
+        emit({ type: 'test/action', payload: 2 })
+        emit({ type: 'test/action', payload: 3 })
+
+        yield* take(channel)
+        yield* take(channel)
+        return yield* take(channel).pipe(Effect.flip)
+      })
+
+      const error = await Effect.runPromise(
+        program.pipe(Effect.scoped, Effect.provide(layer)),
+      )
+      expect(error).toBeInstanceOf(ActionChannelOverflowError)
+      expect(error).toMatchObject({ size: 2 })
+    })
+
+    it('should unsubscribe when the scope closes', async () => {
+      const { layer, listeners } = makeEmittingLayer()
+
+      const program = Effect.gen(function* () {
+        yield* actionChannel(actionPattern('test/action'))
+        expect(listeners.size).toBe(1)
+      })
+
+      await Effect.runPromise(
+        program.pipe(Effect.scoped, Effect.provide(layer)),
+      )
+      expect(listeners.size).toBe(0)
+    })
+
+    it('should work with takeEvery', async () => {
+      const { layer, emit } = makeEmittingLayer()
+      const handled: unknown[] = []
+
+      const program = Effect.gen(function* () {
+        const channel = yield* actionChannel(actionPattern('test/action'))
+
+        emit({ type: 'test/action', payload: 1 })
+        emit({ type: 'test/action', payload: 2 })
+
+        yield* takeEvery(channel.pipe(Stream.take(2)), value =>
+          Effect.sync(() => handled.push((value.action as any).payload)),
+        )
+      })
+
+      await Effect.runPromise(
+        program.pipe(Effect.scoped, Effect.provide(layer)),
+      )
+      expect(handled).toEqual([1, 2])
+    })
+  })
+
   describe('makeStateStream', () => {
     it('should emit initial state and deduplicate', async () => {
       const layer = makeStoreService(mockStore)
@@ -230,13 +552,15 @@ describe('effect-saga core', () => {
         yield* Deferred.await(subscribedSignal)
 
         yield* Effect.sync(() => {
-          customStore.getState = () => ({ counter: 1 })
-          listeners.forEach(l => l({ type: 'UPDATE' }, {}))
+          listeners.forEach(l =>
+            l({ type: 'UPDATE' }, {}, { version: 1, state: { counter: 1 } }),
+          )
         })
 
         yield* Effect.sync(() => {
-          customStore.getState = () => ({ counter: 2 })
-          listeners.forEach(l => l({ type: 'UPDATE' }, {}))
+          listeners.forEach(l =>
+            l({ type: 'UPDATE' }, {}, { version: 2, state: { counter: 2 } }),
+          )
         })
 
         yield* fiber.await
@@ -279,26 +603,30 @@ describe('effect-saga core', () => {
 
         yield* Effect.sync(() => {
           // Same value - should not emit
-          customStore.getState = () => ({ counter: 0 })
-          listeners.forEach(l => l({ type: 'action1' }, {}))
+          listeners.forEach(l =>
+            l({ type: 'action1' }, {}, { version: 1, state: { counter: 0 } }),
+          )
         })
 
         yield* Effect.sync(() => {
           // New value - should emit
-          customStore.getState = () => ({ counter: 1 })
-          listeners.forEach(l => l({ type: 'action2' }, {}))
+          listeners.forEach(l =>
+            l({ type: 'action2' }, {}, { version: 2, state: { counter: 1 } }),
+          )
         })
 
         yield* Effect.sync(() => {
           // Same value - should not emit
-          customStore.getState = () => ({ counter: 1 })
-          listeners.forEach(l => l({ type: 'action3' }, {}))
+          listeners.forEach(l =>
+            l({ type: 'action3' }, {}, { version: 3, state: { counter: 1 } }),
+          )
         })
 
         yield* Effect.sync(() => {
           // New value - should emit
-          customStore.getState = () => ({ counter: 2 })
-          listeners.forEach(l => l({ type: 'action4' }, {}))
+          listeners.forEach(l =>
+            l({ type: 'action4' }, {}, { version: 4, state: { counter: 2 } }),
+          )
         })
 
         yield* fiber.await
@@ -307,101 +635,1417 @@ describe('effect-saga core', () => {
 
       await Effect.runPromise(program.pipe(Effect.provide(layer)))
     })
-  })
 
-  describe('put effect', () => {
-    it('should dispatch an action', async () => {
-      const layer = makeStoreService(mockStore)
-      const action = { type: 'TEST_PUT', payload: 42 }
+    it('should skip states not newer than the ones already emitted', async () => {
+      const listeners = new Set<ActionListener>()
+      const subscribedSignal = Effect.runSync(Deferred.make<void>())
 
-      const program = put(action)
+      const layer = makeStoreService({
+        ...mockStore,
+        getStateVersion: () => 5,
+        subscribeAction: listener => {
+          listeners.add(listener)
+          Effect.runSync(Deferred.succeed(subscribedSignal, void 0))
+          return () => {
+            listeners.delete(listener)
+          }
+        },
+      })
+
+      const program = Effect.gen(function* () {
+        const values: number[] = []
+
+        const fiber = yield* Effect.fork(
+          makeStateStream((state: State) => state.counter).pipe(
+            Stream.take(3),
+            Stream.runForEach(value => Effect.sync(() => values.push(value))),
+          ),
+        )
+
+        yield* Deferred.await(subscribedSignal)
+
+        const dispatch = (version: number, counter: number): void =>
+          listeners.forEach(l =>
+            l({ type: 'UPDATE' }, {}, { version, state: { counter } }),
+          )
+
+        // Already reflected in the initial state
+        dispatch(5, 9)
+        dispatch(7, 1)
+        // A nested dispatch notified after a later one
+        dispatch(6, 8)
+        dispatch(8, 2)
+
+        yield* fiber.await
+        expect(values).toEqual([0, 1, 2])
+      })
 
       await Effect.runPromise(program.pipe(Effect.provide(layer)))
-      expect(mockStore.dispatch).toHaveBeenCalledWith(action)
     })
   })
 
-  describe('select effect', () => {
-    it('should select from state', async () => {
-      const layer = makeStoreService(mockStore)
+  describe('makeStateStream equality', () => {
+    type ItemsState = {
+      items: { id: number; done: boolean }[]
+      other: number
+    }
+
+    const reducer = (state: ItemsState, action: any): ItemsState => {
+      switch (action.type) {
+        case 'other':
+          return { ...state, other: state.other + 1 }
+        case 'toggle':
+          return {
+            ...state,
+            items: state.items.map(item =>
+              item.id === action.payload ? { ...item, done: !item.done } : item,
+            ),
+          }
+        default:
+          return state
+      }
+    }
+
+    const collect = async <T>(
+      stream: Stream.Stream<T, never, StoreService>,
+      actions: { type: string; payload?: unknown }[],
+    ): Promise<T[]> => {
+      const testStore = makeTestStoreService<ItemsState>({
+        initialState: {
+          items: [
+            { id: 1, done: false },
+            { id: 2, done: true },
+          ],
+          other: 0,
+        },
+        reducer,
+      })
 
       const program = Effect.gen(function* () {
-        const userId = yield* select((state: any) => state.user.id)
-        const userName = yield* select((state: any) => state.user.name)
+        const values: T[] = []
+        const fiber = yield* Effect.fork(
+          Stream.runForEach(stream, value =>
+            Effect.sync(() => values.push(value)),
+          ),
+        )
+        yield* testStore.awaitListeners()
+        for (const action of actions) yield* testStore.emit(action)
+        yield* Effect.sleep('10 millis')
+        yield* Fiber.interrupt(fiber)
+        return values
+      })
 
-        expect(userId).toBe(1)
-        expect(userName).toBe('John')
+      return Effect.runPromise(program.pipe(Effect.provide(testStore.layer)))
+    }
+
+    const doneItems = (state: ItemsState): { id: number; done: boolean }[] =>
+      state.items.filter(item => item.done)
+
+    it('should emit on every action for new arrays by reference', async () => {
+      const values = await collect(makeStateStream(doneItems), [
+        { type: 'other' },
+        { type: 'other' },
+      ])
+      expect(values).toHaveLength(3)
+    })
+
+    it('should compare shallowly', async () => {
+      const values = await collect(
+        makeStateStream(doneItems, { equals: 'shallow' }),
+        [{ type: 'other' }, { type: 'toggle', payload: 1 }, { type: 'other' }],
+      )
+      expect(values.map(items => items.map(item => item.id))).toEqual([
+        [2],
+        [1, 2],
+      ])
+    })
+
+    it('should compare deeply', async () => {
+      const values = await collect(
+        makeStateStream(
+          (state: ItemsState) => ({ done: doneItems(state).map(i => i.id) }),
+          { equals: 'deep' },
+        ),
+        [{ type: 'other' }, { type: 'toggle', payload: 2 }],
+      )
+      expect(values).toEqual([{ done: [2] }, { done: [] }])
+    })
+
+    it('should compare with Equal.equals', async () => {
+      const values = await collect(
+        makeStateStream(
+          (state: ItemsState) =>
+            Data.struct({ count: doneItems(state).length }),
+          { equals: 'equal' },
+        ),
+        [{ type: 'other' }, { type: 'toggle', payload: 1 }],
+      )
+      expect(values.map(v => v.count)).toEqual([1, 2])
+    })
+
+    it('should accept a custom equality function', async () => {
+      const values = await collect(
+        makeStateStream(doneItems, {
+          equals: (a, b) => a.length === b.length,
+        }),
+        [{ type: 'other' }, { type: 'toggle', payload: 1 }],
+      )
+      expect(values.map(items => items.length)).toEqual([1, 2])
+    })
+
+    it('should accept a structured selector compared shallowly', async () => {
+      const stream = makeStateStream({
+        items: (state: ItemsState) => state.items,
+        other: (state: ItemsState) => state.other,
       })
 
-      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+      expectTypeOf(stream).toEqualTypeOf<
+        Stream.Stream<
+          { items: { id: number; done: boolean }[]; other: number },
+          never,
+          StoreService
+        >
+      >()
+
+      const values = await collect(stream, [
+        { type: 'unknown' },
+        { type: 'other' },
+      ])
+      expect(values.map(v => v.other)).toEqual([0, 1])
+    })
+
+    it('should reduce emissions on a store receiving thousands of actions', async () => {
+      const actions = Array.from({ length: 2000 }, () => ({ type: 'other' }))
+
+      const byReference = await collect(makeStateStream(doneItems), actions)
+      const shallow = await collect(
+        makeStateStream(doneItems, { equals: 'shallow' }),
+        actions,
+      )
+
+      expect(byReference).toHaveLength(2001)
+      expect(shallow).toHaveLength(1)
     })
   })
 
-  describe('take effect', () => {
-    it('should take first value from stream', async () => {
-      const layer = makeStoreService(mockStore)
+  describe('state transitions', () => {
+    type Status = 'idle' | 'loading' | 'error' | 'done'
+    type StatusState = { status: Status; other: number }
+
+    const reducer = (state: StatusState, action: any): StatusState => {
+      switch (action.type) {
+        case 'status':
+          return { ...state, status: action.payload }
+        case 'other':
+          return { ...state, other: state.other + 1 }
+        default:
+          return state
+      }
+    }
+
+    const statuses = (...list: Status[]): { type: string; payload: Status }[] =>
+      list.map(payload => ({ type: 'status', payload }))
+
+    const run = async <A>(
+      saga: (values: A[]) => Effect.Effect<void, never, StoreService>,
+      actions: { type: string; payload?: unknown }[],
+    ): Promise<A[]> => {
+      const testStore = makeTestStoreService<StatusState>({
+        initialState: { status: 'idle', other: 0 },
+        reducer,
+      })
 
       const program = Effect.gen(function* () {
-        // Create a simple stream with known values
-        const stream = Stream.make(1, 2, 3)
-        const value = yield* take(stream)
-        expect(value).toBe(1)
+        const values: A[] = []
+        const fiber = yield* Effect.fork(saga(values))
+        yield* testStore.awaitListeners()
+        for (const action of actions) yield* testStore.emit(action)
+        yield* Effect.sleep('10 millis')
+        yield* Fiber.interrupt(fiber)
+        return values
       })
 
-      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+      return Effect.runPromise(program.pipe(Effect.provide(testStore.layer)))
+    }
+
+    it('makeStateChangeStream should emit previous, current and action', async () => {
+      const changes = await run<StateChange<Status>>(
+        values =>
+          makeStateChangeStream((state: StatusState) => state.status).pipe(
+            Stream.runForEach(change => Effect.sync(() => values.push(change))),
+          ),
+        [{ type: 'other' }, ...statuses('loading', 'loading', 'error')],
+      )
+
+      expect(changes).toEqual([
+        {
+          previous: 'idle',
+          current: 'loading',
+          action: { type: 'status', payload: 'loading' },
+          version: 2,
+        },
+        {
+          previous: 'loading',
+          current: 'error',
+          action: { type: 'status', payload: 'error' },
+          version: 4,
+        },
+      ])
     })
-  })
 
-  describe('takeEvery', () => {
-    it('should handle every action sequentially', async () => {
-      const layer = makeStoreService(mockStore)
-      const results: number[] = []
+    it('makeStateChangeStream should follow state versions when dispatches nest', async () => {
+      const initialState: StatusState = { status: 'idle', other: 0 }
+      const store = createStore(
+        (state: StatusState = initialState, action: any): StatusState =>
+          reducer(state, action),
+        subscribeStoreActionEnhancerFactory(),
+      )
+      // Fails the request while the listeners of `loading` are notified
+      store.subscribe(() => {
+        if (store.getState().status === 'loading') {
+          store.dispatch({ type: 'status', payload: 'error' })
+        }
+      })
 
       const program = Effect.gen(function* () {
-        const stream = Stream.make(1, 2, 3)
+        const changes: StateChange<Status>[] = []
+        const fiber = yield* Effect.fork(
+          makeStateChangeStream((state: StatusState) => state.status).pipe(
+            Stream.runForEach(change =>
+              Effect.sync(() => changes.push(change)),
+            ),
+          ),
+        )
+        yield* Effect.sleep('10 millis')
 
-        yield* takeEvery(stream, value => {
-          results.push(value)
-          return Effect.succeed(value * 2)
-        })
+        store.dispatch({ type: 'status', payload: 'loading' })
+        yield* Effect.sleep('10 millis')
+        yield* Fiber.interrupt(fiber)
+        return changes
       })
 
-      await Effect.runPromise(program.pipe(Effect.provide(layer)))
-      expect(results).toEqual([1, 2, 3])
+      const changes = await Effect.runPromise(
+        program.pipe(Effect.provide(makeStoreService(store))),
+      )
+
+      expect(changes).toEqual([
+        {
+          previous: 'idle',
+          current: 'error',
+          action: { type: 'status', payload: 'error' },
+          version: 3,
+        },
+      ])
+      expect(store.getState().status).toBe('error')
+    })
+
+    it('onStateTransition should only handle matching transitions', async () => {
+      const handled = await run<StateChange<Status>>(
+        values =>
+          onStateTransition(
+            (state: StatusState) => state.status,
+            'loading',
+            'error',
+            change => Effect.sync(() => values.push(change)),
+          ),
+        statuses('loading', 'done', 'loading', 'error', 'idle', 'error'),
+      )
+
+      expect(handled).toHaveLength(1)
+      expect(handled[0]!.action).toEqual({ type: 'status', payload: 'error' })
+    })
+
+    it('onStateTransition should accept predicates', async () => {
+      const handled = await run<Status>(
+        values =>
+          onStateTransition(
+            (state: StatusState) => state.status,
+            status => status !== 'idle',
+            'idle',
+            change => Effect.sync(() => values.push(change.previous)),
+          ),
+        statuses('loading', 'idle', 'error', 'idle'),
+      )
+
+      expect(handled).toEqual(['loading', 'error'])
     })
   })
 
-  describe('takeLatest', () => {
-    it('should cancel previous handlers when new value arrives', async () => {
-      const layer = makeStoreService(mockStore)
-      const started: number[] = []
-      const completed: number[] = []
+  describe('END', () => {
+    it('should complete action and state streams', async () => {
+      const testStore = makeTestStoreService({ initialState: { count: 0 } })
 
       const program = Effect.gen(function* () {
-        const stream = Stream.make(1, 2, 3).pipe(
-          Stream.flatMap(value =>
-            Stream.fromEffect(
-              Effect.succeed(value).pipe(Effect.delay('10 millis')),
-            ),
-          ),
+        const actions = yield* Effect.fork(
+          Stream.runCollect(makeActionStream(actionPattern('ping'))),
         )
-
-        yield* takeLatest(stream, value =>
-          Effect.gen(function* () {
-            started.push(value)
-            yield* Effect.sleep('50 millis')
-            completed.push(value)
-            return value
-          }),
+        const states = yield* Effect.fork(
+          Stream.runCollect(makeStateStream((state: any) => state.count)),
         )
+        yield* testStore.awaitListeners(2)
+
+        yield* testStore.emit({ type: 'ping' })
+        yield* testStore.emit(END)
+
+        return [
+          Chunk.toArray(yield* Fiber.join(actions)).map(item => item.action),
+          Chunk.toArray(yield* Fiber.join(states)),
+        ]
       })
 
-      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+      const [actions, states] = await Effect.runPromise(
+        program.pipe(Effect.provide(testStore.layer)),
+      )
+      expect(actions).toEqual([{ type: 'ping' }])
+      expect(states).toEqual([0])
+    })
 
-      // All should start
+    it('should deliver buffered actions of a channel before completing it', async () => {
+      const testStore = makeTestStoreService({ initialState: {} })
+
+      const program = Effect.gen(function* () {
+        const channel = yield* actionChannel(actionPattern('ping'))
+
+        yield* testStore.emit({ type: 'ping', payload: 1 })
+        yield* testStore.emit(END)
+        yield* testStore.emit({ type: 'ping', payload: 2 })
+
+        return Chunk.toArray(yield* Stream.runCollect(channel))
+      })
+
+      const items = await Effect.runPromise(
+        program.pipe(Effect.scoped, Effect.provide(testStore.layer)),
+      )
+      expect(items.map(item => item.action)).toEqual([
+        { type: 'ping', payload: 1 },
+      ])
+    })
+
+    it('should fail sagas waiting in take or waitForState with EndOfStream', async () => {
+      const testStore = makeTestStoreService({ initialState: { ready: false } })
+
+      const program = Effect.gen(function* () {
+        const taking = yield* Effect.fork(
+          take(makeActionStream(actionPattern('ping'))),
+        )
+        const waiting = yield* Effect.fork(
+          waitForState(
+            (state: { ready: boolean }) => state.ready,
+            ready => ready,
+          ),
+        )
+        yield* testStore.awaitListeners(2)
+
+        yield* testStore.emit(END)
+
+        return [yield* Fiber.await(taking), yield* Fiber.await(waiting)]
+      })
+
+      const exits = await Effect.runPromise(
+        program.pipe(Effect.provide(testStore.layer)),
+      )
+      expect(exits).toEqual([
+        Exit.fail(new EndOfStream()),
+        Exit.fail(new EndOfStream()),
+      ])
+    })
+
+    it('should end streams, channels and waits subscribing after END', async () => {
+      const testStore = makeTestStoreService({ initialState: { ready: false } })
+
+      const program = Effect.gen(function* () {
+        yield* testStore.emit(END)
+
+        const channel = yield* actionChannel(actionPattern('ping'))
+
+        return [
+          Chunk.toArray(
+            yield* Stream.runCollect(makeActionStream(actionPattern('ping'))),
+          ),
+          Chunk.toArray(
+            yield* Stream.runCollect(
+              makeStateStream((state: { ready: boolean }) => state.ready),
+            ),
+          ),
+          Chunk.toArray(yield* Stream.runCollect(channel)),
+          yield* Effect.exit(take(makeActionStream(actionPattern('ping')))),
+          yield* Effect.exit(
+            waitForState(
+              (state: { ready: boolean }) => state.ready,
+              ready => ready,
+            ),
+          ),
+        ]
+      })
+
+      const results = await Effect.runPromise(
+        program.pipe(Effect.scoped, Effect.provide(testStore.layer)),
+      )
+      expect(results).toEqual([
+        [],
+        [false],
+        [],
+        Exit.fail(new EndOfStream()),
+        Exit.fail(new EndOfStream()),
+      ])
+    })
+  })
+
+  describe('waitForState', () => {
+    type AuthState = { user: string | null }
+
+    const reducer = (state: AuthState, action: any): AuthState =>
+      action.type === 'login' ? { user: action.payload } : state
+
+    it('should return right away when the current state matches', async () => {
+      const testStore = makeTestStoreService<AuthState>({
+        initialState: { user: 'john' },
+      })
+
+      const user = await Effect.runPromise(
+        waitForState(
+          (state: AuthState) => state.user,
+          user => user != null,
+        ).pipe(Effect.provide(testStore.layer)),
+      )
+
+      expect(user).toBe('john')
+    })
+
+    it('should wait for an action to make the state match', async () => {
+      const testStore = makeTestStoreService<AuthState>({
+        initialState: { user: null },
+        reducer,
+      })
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(
+          waitForState(
+            (state: AuthState) => state.user,
+            user => user != null,
+          ),
+        )
+        yield* testStore.awaitListeners()
+        yield* testStore.emit({ type: 'other' })
+        yield* testStore.emit({ type: 'login', payload: 'jane' })
+        return yield* Fiber.join(fiber)
+      })
+
+      const user = await Effect.runPromise(
+        program.pipe(Effect.provide(testStore.layer)),
+      )
+      expect(user).toBe('jane')
+    })
+
+    it('should read the state after subscribing', async () => {
+      let state: AuthState = { user: null }
+      const layer = makeStoreService({
+        ...mockStore,
+        getState: () => state,
+        subscribeAction: () => {
+          // The state changes right after subscribing, before any read
+          state = { user: 'john' }
+          return () => {}
+        },
+      })
+
+      const user = await Effect.runPromise(
+        waitForState(
+          (s: AuthState) => s.user,
+          user => user != null,
+        ).pipe(Effect.provide(layer)),
+      )
+      expect(user).toBe('john')
+    })
+
+    it('should fail with a timeout error', async () => {
+      const testStore = makeTestStoreService<AuthState>({
+        initialState: { user: null },
+      })
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(
+          waitForState(
+            (state: AuthState) => state.user,
+            user => user != null,
+            { timeout: '5 seconds' },
+          ).pipe(Effect.flip),
+        )
+        yield* TestClock.adjust('5 seconds')
+        return yield* Fiber.join(fiber)
+      })
+
+      const error = await Effect.runPromise(
+        program.pipe(
+          Effect.provide(testStore.layer),
+          Effect.provide(TestContext.TestContext),
+        ),
+      )
+      expect(error).toBeInstanceOf(WaitForStateTimeoutError)
+    })
+  })
+
+  describe('put effect', () => {
+    it('should dispatch an action', async () => {
+      const layer = makeStoreService(mockStore)
+      const action = { type: 'TEST_PUT', payload: 42 }
+
+      const program = put(action)
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+      expect(mockStore.dispatch).toHaveBeenCalledWith(action)
+    })
+  })
+
+  describe('select effect', () => {
+    it('should select from state', async () => {
+      const layer = makeStoreService(mockStore)
+
+      const program = Effect.gen(function* () {
+        const userId = yield* select((state: any) => state.user.id)
+        const userName = yield* select((state: any) => state.user.name)
+
+        expect(userId).toBe(1)
+        expect(userName).toBe('John')
+      })
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+    })
+  })
+
+  describe('take effect', () => {
+    it('should take first value from stream', async () => {
+      const layer = makeStoreService(mockStore)
+
+      const program = Effect.gen(function* () {
+        // Create a simple stream with known values
+        const stream = Stream.make(1, 2, 3)
+        const value = yield* take(stream)
+        expect(value).toBe(1)
+      })
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+    })
+  })
+
+  describe('takeEvery', () => {
+    it('should handle every action sequentially', async () => {
+      const layer = makeStoreService(mockStore)
+      const results: number[] = []
+
+      const program = Effect.gen(function* () {
+        const stream = Stream.make(1, 2, 3)
+
+        yield* takeEvery(stream, value => {
+          results.push(value)
+          return Effect.succeed(value * 2)
+        })
+      })
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+      expect(results).toEqual([1, 2, 3])
+    })
+
+    it('should stop handling values when a handler fails', async () => {
+      const layer = makeStoreService(mockStore)
+      const results: number[] = []
+
+      const program = takeEvery(
+        Stream.make(1, 2, 3).pipe(
+          Stream.schedule(Schedule.spaced('10 millis')),
+        ),
+        value =>
+          value === 2
+            ? Effect.fail('boom')
+            : Effect.sync(() => results.push(value)),
+      )
+
+      const exit = await Effect.runPromiseExit(
+        program.pipe(Effect.provide(layer)),
+      )
+      expect(exit).toEqual(Exit.fail('boom'))
+      expect(results).toEqual([1])
+    })
+
+    it('should isolate failing handlers with onHandlerError', async () => {
+      const layer = makeStoreService(mockStore)
+      const results: number[] = []
+      const failures: [unknown, number][] = []
+
+      const program = takeEvery(
+        Stream.make(1, 2, 3),
+        value =>
+          value === 2
+            ? Effect.fail('boom')
+            : Effect.sync(() => results.push(value)),
+        {
+          onHandlerError: (cause, value) =>
+            Effect.sync(() => failures.push([Cause.squash(cause), value])),
+        },
+      )
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+      expect(results).toEqual([1, 3])
+      expect(failures).toEqual([['boom', 2]])
+    })
+
+    it('should report isolated failures to SagaErrorReporter and dispatch the error action', async () => {
+      const layer = makeStoreService(mockStore)
+      const report = vi.fn()
+
+      const program = takeEvery(
+        Stream.make(1, 2),
+        value => (value === 1 ? Effect.die('defect') : Effect.void),
+        {
+          onHandlerError: 'report',
+          errorAction: (cause, value) => ({
+            type: 'saga/handlerFailed',
+            payload: { value, error: Cause.squash(cause) },
+          }),
+        },
+      )
+
+      await Effect.runPromise(
+        program.pipe(
+          Effect.provide(layer),
+          Effect.provideService(SagaErrorReporter, report),
+        ),
+      )
+
+      expect(report).toHaveBeenCalledTimes(1)
+      expect(report).toHaveBeenCalledWith(Exit.die('defect'), { restarts: 0 })
+      expect(mockStore.dispatch).toHaveBeenCalledWith({
+        type: 'saga/handlerFailed',
+        payload: { value: 1, error: 'defect' },
+      })
+    })
+  })
+
+  describe('takeLatest', () => {
+    it('should cancel previous handlers when new value arrives', async () => {
+      const layer = makeStoreService(mockStore)
+      const started: number[] = []
+      const completed: number[] = []
+
+      const program = Effect.gen(function* () {
+        const stream = Stream.make(1, 2, 3).pipe(
+          Stream.flatMap(value =>
+            Stream.fromEffect(
+              Effect.succeed(value).pipe(Effect.delay('10 millis')),
+            ),
+          ),
+        )
+
+        yield* takeLatest(stream, value =>
+          Effect.gen(function* () {
+            started.push(value)
+            yield* Effect.sleep('50 millis')
+            completed.push(value)
+            return value
+          }),
+        )
+      })
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+
+      // All should start
       expect(started.length).toBeGreaterThan(0)
       // Only the last should complete due to switching
       expect(completed).toEqual([3])
     })
+
+    it('should keep handling values after an isolated failure', async () => {
+      const layer = makeStoreService(mockStore)
+      const completed: number[] = []
+      const failed: number[] = []
+
+      const program = takeLatest(
+        Stream.make(1, 2).pipe(Stream.schedule(Schedule.spaced('10 millis'))),
+        value =>
+          value === 1
+            ? Effect.fail('boom')
+            : Effect.sync(() => completed.push(value)),
+        {
+          onHandlerError: (_cause, value) =>
+            Effect.sync(() => failed.push(value)),
+        },
+      )
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+      expect(failed).toEqual([1])
+      expect(completed).toEqual([2])
+    })
+  })
+
+  describe('takeLeading', () => {
+    it('should ignore new values while a handler is running', async () => {
+      const layer = makeStoreService(mockStore)
+      const completed: number[] = []
+
+      const program = Effect.gen(function* () {
+        const stream = Stream.make(1, 2, 3, 4).pipe(
+          Stream.flatMap(value =>
+            Stream.fromEffect(
+              Effect.succeed(value).pipe(Effect.delay('30 millis')),
+            ),
+          ),
+        )
+
+        yield* takeLeading(stream, value =>
+          Effect.gen(function* () {
+            yield* Effect.sleep('75 millis')
+            completed.push(value)
+          }),
+        )
+      })
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+
+      // 2 and 3 arrive while 1 is still running
+      expect(completed).toEqual([1, 4])
+    })
+  })
+
+  describe('takeQueue', () => {
+    it('should handle values one at a time in order', async () => {
+      const layer = makeStoreService(mockStore)
+      const events: string[] = []
+
+      const program = Effect.gen(function* () {
+        yield* takeQueue(Stream.make(3, 1, 2), value =>
+          Effect.gen(function* () {
+            events.push(`start:${value}`)
+            yield* Effect.sleep(`${value * 5} millis`)
+            events.push(`end:${value}`)
+          }),
+        )
+      })
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)))
+
+      expect(events).toEqual([
+        'start:3',
+        'end:3',
+        'start:1',
+        'end:1',
+        'start:2',
+        'end:2',
+      ])
+    })
+  })
+
+  describe('takeWith', () => {
+    const trackConcurrency = (): {
+      handler: (value: number) => Effect.Effect<void>
+      completed: number[]
+      maxRunning: () => number
+    } => {
+      let running = 0
+      let maxRunning = 0
+      const completed: number[] = []
+
+      return {
+        completed,
+        maxRunning: () => maxRunning,
+        handler: value =>
+          Effect.gen(function* () {
+            running++
+            maxRunning = Math.max(maxRunning, running)
+            yield* Effect.sleep('20 millis')
+            completed.push(value)
+          }).pipe(Effect.ensuring(Effect.sync(() => running--))),
+      }
+    }
+
+    it('should queue overflowing values by default', async () => {
+      const layer = makeStoreService(mockStore)
+      const tracker = trackConcurrency()
+
+      await Effect.runPromise(
+        takeWith({ concurrency: 2 })(
+          Stream.make(1, 2, 3, 4, 5),
+          tracker.handler,
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(tracker.maxRunning()).toBe(2)
+      expect([...tracker.completed].sort()).toEqual([1, 2, 3, 4, 5])
+    })
+
+    it('should drop newest values when all slots are busy', async () => {
+      const layer = makeStoreService(mockStore)
+      const tracker = trackConcurrency()
+
+      await Effect.runPromise(
+        takeWith({ concurrency: 2, overflow: 'dropNewest' })(
+          Stream.make(1, 2, 3, 4, 5),
+          tracker.handler,
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(tracker.maxRunning()).toBe(2)
+      expect([...tracker.completed].sort()).toEqual([1, 2])
+    })
+
+    it('should interrupt oldest handlers when all slots are busy', async () => {
+      const layer = makeStoreService(mockStore)
+      const tracker = trackConcurrency()
+
+      await Effect.runPromise(
+        takeWith({ concurrency: 2, overflow: 'dropOldest' })(
+          Stream.make(1, 2, 3, 4, 5),
+          tracker.handler,
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(tracker.maxRunning()).toBe(2)
+      expect([...tracker.completed].sort()).toEqual([4, 5])
+    })
+
+    it('should run every value concurrently when unbounded', async () => {
+      const layer = makeStoreService(mockStore)
+      const tracker = trackConcurrency()
+
+      await Effect.runPromise(
+        takeWith({ concurrency: 'unbounded' })(
+          Stream.make(1, 2, 3),
+          tracker.handler,
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(tracker.maxRunning()).toBe(3)
+      expect([...tracker.completed].sort()).toEqual([1, 2, 3])
+    })
+  })
+
+  describe('keyed helpers', () => {
+    type Item = { id: number; n: number }
+
+    const spaced = (...items: Item[]): Stream.Stream<Item> =>
+      Stream.fromIterable(items).pipe(
+        Stream.flatMap(item =>
+          Stream.fromEffect(
+            Effect.succeed(item).pipe(Effect.delay('10 millis')),
+          ),
+        ),
+      )
+
+    const record = (
+      completed: string[],
+    ): ((item: Item) => Effect.Effect<void>) => {
+      return item =>
+        Effect.gen(function* () {
+          yield* Effect.sleep('50 millis')
+          completed.push(`${item.id}:${item.n}`)
+        })
+    }
+
+    it('takeLatestBy should only cancel handlers with the same key', async () => {
+      const layer = makeStoreService(mockStore)
+      const completed: string[] = []
+
+      await Effect.runPromise(
+        takeLatestBy(
+          spaced({ id: 1, n: 1 }, { id: 2, n: 1 }, { id: 1, n: 2 }),
+          item => item.id,
+          record(completed),
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(completed.sort()).toEqual(['1:2', '2:1'])
+    })
+
+    it('takeLeadingBy should only ignore values with a busy key', async () => {
+      const layer = makeStoreService(mockStore)
+      const completed: string[] = []
+
+      await Effect.runPromise(
+        takeLeadingBy(
+          spaced({ id: 1, n: 1 }, { id: 2, n: 1 }, { id: 1, n: 2 }),
+          item => item.id,
+          record(completed),
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(completed.sort()).toEqual(['1:1', '2:1'])
+    })
+
+    it('takeQueueBy should handle each key in order', async () => {
+      const layer = makeStoreService(mockStore)
+      const completed: string[] = []
+
+      await Effect.runPromise(
+        takeQueueBy(
+          spaced(
+            { id: 1, n: 1 },
+            { id: 2, n: 1 },
+            { id: 1, n: 2 },
+            { id: 1, n: 3 },
+          ),
+          item => item.id,
+          record(completed),
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(completed.filter(c => c.startsWith('1:'))).toEqual([
+        '1:1',
+        '1:2',
+        '1:3',
+      ])
+      expect(completed).toContain('2:1')
+      // The second key does not wait for the first lane to drain
+      expect(completed.indexOf('2:1')).toBeLessThan(completed.indexOf('1:2'))
+    })
+
+    it('should start a fresh lane once a key becomes idle', async () => {
+      const layer = makeStoreService(mockStore)
+      const completed: string[] = []
+
+      await Effect.runPromise(
+        takeLeadingBy(
+          Stream.concat(
+            spaced({ id: 1, n: 1 }),
+            spaced({ id: 1, n: 2 }).pipe(
+              Stream.schedule(Schedule.spaced('60 millis')),
+            ),
+          ),
+          item => item.id,
+          record(completed),
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(completed).toEqual(['1:1', '1:2'])
+    })
+
+    it('should fail when a handler fails', async () => {
+      const layer = makeStoreService(mockStore)
+
+      const exit = await Effect.runPromiseExit(
+        takeQueueBy(
+          spaced({ id: 1, n: 1 }, { id: 2, n: 1 }),
+          item => item.id,
+          item => (item.id === 2 ? Effect.fail('boom') : Effect.void),
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(Exit.isFailure(exit)).toBe(true)
+    })
+  })
+
+  describe('time based helpers', () => {
+    const withQueue = <A, H = A>(
+      run: (
+        stream: Stream.Stream<A>,
+        handled: H[],
+      ) => Effect.Effect<void, never, StoreService>,
+      script: (
+        offer: (value: A) => Effect.Effect<void>,
+        handled: H[],
+      ) => Effect.Effect<void>,
+    ): Promise<void> => {
+      const layer = makeStoreService(mockStore)
+
+      const program = Effect.gen(function* () {
+        const queue = yield* Queue.unbounded<A>()
+        const handled: H[] = []
+
+        const fiber = yield* Effect.fork(run(Stream.fromQueue(queue), handled))
+        yield* script(
+          value => Queue.offer(queue, value).pipe(Effect.asVoid),
+          handled,
+        )
+        yield* Fiber.interrupt(fiber)
+      })
+
+      return Effect.runPromise(
+        program.pipe(
+          Effect.provide(layer),
+          Effect.provide(TestContext.TestContext),
+        ),
+      )
+    }
+
+    const advance = (duration: `${number} millis`): Effect.Effect<void> =>
+      Effect.zipRight(Effect.yieldNow(), TestClock.adjust(duration))
+
+    it('debounce should only handle values after a quiet period', () =>
+      withQueue<number>(
+        (stream, handled) =>
+          debounce(stream, '100 millis', value =>
+            Effect.sync(() => handled.push(value)),
+          ),
+        (offer, handled) =>
+          Effect.gen(function* () {
+            yield* offer(1)
+            yield* advance('50 millis')
+            yield* offer(2)
+            yield* advance('50 millis')
+            yield* offer(3)
+            yield* advance('99 millis')
+            expect(handled).toEqual([])
+
+            yield* advance('1 millis')
+            yield* Effect.yieldNow()
+            expect(handled).toEqual([3])
+          }),
+      ))
+
+    it('throttle should handle leading and trailing values', () =>
+      withQueue<number>(
+        (stream, handled) =>
+          throttle(stream, '100 millis', value =>
+            Effect.sync(() => handled.push(value)),
+          ),
+        (offer, handled) =>
+          Effect.gen(function* () {
+            yield* offer(1)
+            yield* advance('10 millis')
+            expect(handled).toEqual([1])
+
+            yield* offer(2)
+            yield* offer(3)
+            yield* advance('10 millis')
+            expect(handled).toEqual([1])
+
+            yield* advance('80 millis')
+            yield* Effect.yieldNow()
+            expect(handled).toEqual([1, 3])
+
+            // The trailing value opens a new window
+            yield* offer(4)
+            yield* advance('50 millis')
+            expect(handled).toEqual([1, 3])
+
+            yield* advance('50 millis')
+            yield* Effect.yieldNow()
+            expect(handled).toEqual([1, 3, 4])
+          }),
+      ))
+
+    it('throttle should support leading only', () =>
+      withQueue<number>(
+        (stream, handled) =>
+          throttle(
+            stream,
+            '100 millis',
+            value => Effect.sync(() => handled.push(value)),
+            { trailing: false },
+          ),
+        (offer, handled) =>
+          Effect.gen(function* () {
+            yield* offer(1)
+            yield* offer(2)
+            yield* advance('100 millis')
+            yield* offer(3)
+            yield* advance('10 millis')
+            expect(handled).toEqual([1, 3])
+          }),
+      ))
+
+    it('throttle should support trailing only', () =>
+      withQueue<number>(
+        (stream, handled) =>
+          throttle(
+            stream,
+            '100 millis',
+            value => Effect.sync(() => handled.push(value)),
+            { leading: false },
+          ),
+        (offer, handled) =>
+          Effect.gen(function* () {
+            yield* offer(1)
+            yield* offer(2)
+            yield* advance('10 millis')
+            expect(handled).toEqual([])
+
+            yield* advance('90 millis')
+            yield* Effect.yieldNow()
+            expect(handled).toEqual([2])
+          }),
+      ))
+
+    it('bufferTime should batch values by duration', () =>
+      withQueue<number, number[]>(
+        (stream, handled) =>
+          bufferTime(stream, '100 millis', values =>
+            Effect.sync(() => handled.push([...values])),
+          ),
+        (offer, handled) =>
+          Effect.gen(function* () {
+            yield* offer(1)
+            yield* offer(2)
+            yield* advance('100 millis')
+            yield* Effect.yieldNow()
+            expect(handled).toEqual([[1, 2]])
+
+            yield* offer(3)
+            yield* advance('100 millis')
+            yield* Effect.yieldNow()
+            expect(handled).toEqual([[1, 2], [3]])
+          }),
+      ))
+
+    it('bufferTime should batch values by size', async () => {
+      const layer = makeStoreService(mockStore)
+      const handled: number[][] = []
+
+      await Effect.runPromise(
+        bufferTime(Stream.make(1, 2, 3, 4, 5), { size: 2 }, values =>
+          Effect.sync(() => handled.push([...values])),
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(handled).toEqual([[1, 2], [3, 4], [5]])
+    })
+  })
+
+  describe('raceActions', () => {
+    it('should return the first matching action tagged with its key', async () => {
+      const { layer, emit, awaitListeners } = makeEmittingLayer()
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(
+          raceActions({
+            success: actionPattern<{ type: 'ok'; payload: number }>('ok'),
+            failure: actionPattern('error'),
+          }),
+        )
+
+        yield* awaitListeners(2)
+        emit({ type: 'other' })
+        emit({ type: 'ok', payload: 1 })
+
+        return yield* Fiber.join(fiber)
+      })
+
+      const result = await Effect.runPromise(
+        program.pipe(Effect.provide(layer)),
+      )
+
+      expect(result._tag).toBe('success')
+      if (result._tag === 'success') {
+        expectTypeOf(result.action.payload).toEqualTypeOf<number>()
+        expect(result.action).toEqual({ type: 'ok', payload: 1 })
+        expect(result.state).toEqual(initialState)
+      }
+    })
+
+    it('should release losing subscriptions', async () => {
+      const { layer, emit, listeners, awaitListeners } = makeEmittingLayer()
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(
+          raceActions({
+            success: actionPattern('ok'),
+            failure: actionPattern('error'),
+            cancel: actionPattern('cancel'),
+          }),
+        )
+
+        yield* awaitListeners(3)
+        emit({ type: 'error' })
+
+        return yield* Fiber.join(fiber)
+      })
+
+      const result = await Effect.runPromise(
+        program.pipe(Effect.provide(layer)),
+      )
+
+      expect(result._tag).toBe('failure')
+      expect(listeners.size).toBe(0)
+    })
+
+    it('should support timeouts', async () => {
+      const { layer, listeners } = makeEmittingLayer()
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(
+          raceActions({ success: actionPattern('ok'), timeout: '1 second' }),
+        )
+
+        yield* TestClock.adjust('1 second')
+        return yield* Fiber.join(fiber)
+      })
+
+      const result = await Effect.runPromise(
+        program.pipe(
+          Effect.provide(layer),
+          Effect.provide(TestContext.TestContext),
+        ),
+      )
+
+      expect(result).toEqual({ _tag: 'timeout' })
+      expect(listeners.size).toBe(0)
+    })
+
+    it('should fail with EndOfStream on END instead of waiting for the timeout', async () => {
+      const testStore = makeTestStoreService({ initialState: {} })
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(
+          raceActions({ ok: actionPattern('ok'), timeout: '100 millis' }),
+        )
+
+        yield* testStore.awaitListeners()
+        yield* testStore.emit(END)
+        yield* TestClock.adjust('100 millis')
+
+        return yield* Fiber.await(fiber)
+      })
+
+      const exit = await Effect.runPromise(
+        program.pipe(
+          Effect.provide(testStore.layer),
+          Effect.provide(TestContext.TestContext),
+        ),
+      )
+
+      expect(exit).toEqual(Exit.fail(new EndOfStream()))
+    })
+  })
+
+  describe('allActions', () => {
+    it('should wait for every pattern', async () => {
+      const { layer, emit, awaitListeners } = makeEmittingLayer()
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(
+          allActions({
+            user: actionPattern('user/loaded'),
+            config: actionPattern('config/loaded'),
+          }),
+        )
+
+        yield* awaitListeners(2)
+        emit({ type: 'config/loaded', payload: 'c' })
+        emit({ type: 'config/loaded', payload: 'ignored' })
+        emit({ type: 'user/loaded', payload: 'u' })
+
+        return yield* Fiber.join(fiber)
+      })
+
+      const result = await Effect.runPromise(
+        program.pipe(Effect.provide(layer)),
+      )
+
+      expect(result.user.action).toEqual({ type: 'user/loaded', payload: 'u' })
+      expect(result.config.action).toEqual({
+        type: 'config/loaded',
+        payload: 'c',
+      })
+    })
+  })
+
+  describe('putAndAwait', () => {
+    type Reply = {
+      type: 'reply'
+      payload: number
+      meta: { correlationId: string }
+    }
+
+    it('should stamp a correlation id and return the matching reply', async () => {
+      const dispatched: any[] = []
+      const { layer } = makeEmittingLayer((action, emit) => {
+        dispatched.push(action)
+        if (action.type !== 'request') return
+
+        // A reply for another request must be ignored
+        emit({ type: 'reply', payload: 0, meta: { correlationId: 'other' } })
+        // Replies synchronously, before putAndAwait could take
+        emit({
+          type: 'reply',
+          payload: 42,
+          meta: { correlationId: action.meta.correlationId },
+        })
+      })
+
+      const result = await Effect.runPromise(
+        putAndAwait(
+          { type: 'request', meta: { source: 'test' } },
+          { reply: actionPattern<Reply>('reply') },
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(dispatched[0].meta.source).toBe('test')
+      expect(typeof dispatched[0].meta.correlationId).toBe('string')
+      expect(result.action.payload).toBe(42)
+      expect(result.action.meta.correlationId).toBe(
+        dispatched[0].meta.correlationId,
+      )
+    })
+
+    it('should support a custom correlate function', async () => {
+      const { layer } = makeEmittingLayer((action, emit) => {
+        if (action.type === 'request') {
+          emit({ type: 'reply', requestId: action.meta.correlationId })
+        }
+      })
+
+      const result = await Effect.runPromise(
+        putAndAwait(
+          { type: 'request' },
+          {
+            reply: actionPattern<{ type: 'reply'; requestId: string }>('reply'),
+            correlate: action => action.requestId,
+          },
+        ).pipe(Effect.provide(layer)),
+      )
+
+      expect(result.action.type).toBe('reply')
+    })
+
+    it('should fail with a rejection when an error reply arrives', async () => {
+      const { layer } = makeEmittingLayer((action, emit) => {
+        if (action.type === 'request') {
+          emit({
+            type: 'failed',
+            payload: 'nope',
+            meta: { correlationId: action.meta.correlationId },
+          })
+        }
+      })
+
+      const error = await Effect.runPromise(
+        putAndAwait(
+          { type: 'request' },
+          {
+            reply: actionPattern('reply'),
+            error: actionPattern<{ type: 'failed'; payload: string }>('failed'),
+          },
+        ).pipe(Effect.flip, Effect.provide(layer)),
+      )
+
+      expect(error).toBeInstanceOf(PutAndAwaitRejectedError)
+      if (error._tag === 'PutAndAwaitRejectedError') {
+        expect(error.action.payload).toBe('nope')
+      }
+    })
+
+    it('should fail with a timeout error when no reply arrives', async () => {
+      const { layer, listeners } = makeEmittingLayer()
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(
+          putAndAwait(
+            { type: 'request' },
+            { reply: actionPattern('reply'), timeout: '1 second' },
+          ).pipe(Effect.flip),
+        )
+        yield* TestClock.adjust('1 second')
+        return yield* Fiber.join(fiber)
+      })
+
+      const error = await Effect.runPromise(
+        program.pipe(
+          Effect.provide(layer),
+          Effect.provide(TestContext.TestContext),
+        ),
+      )
+
+      expect(error).toBeInstanceOf(PutAndAwaitTimeoutError)
+      expect(error).toMatchObject({ action: { type: 'request' } })
+      expect(listeners.size).toBe(0)
+    })
   })
 })
@@ -1,7 +1,50 @@
 import { Action, Store as ReduxStore, UnknownAction } from 'redux'
-import { Chunk, Context, Effect, Layer, Sink, Stream, StreamEmit } from 'effect'
+import {
+  Cause,
+  Chunk,
+  Clock,
+  Context,
+  Data,
+  Deferred,
+  Duration,
+  Effect,
+  Either,
+  Equal,
+  Exit,
+  Fiber,
+  FiberRef,
+  FiberSet,
+  Layer,
+  Option,
+  Queue,
+  Ref,
+  Scope,
+  Sink,
+  Stream,
+  StreamEmit,
+} from 'effect'
+import { identity } from 'effect/Function'
+import { deepEqual, shallowEqual } from './helpers/equalityHelpers'
 import { streamDistinctUntilChanged } from './utils/streamDistinctUntilChanged'
-import { SubscribeStoreActionFn } from './utils/subscribeStoreActionEnhancerFactory'
+import {
+  causeOf,
+  CurrentActionCause,
+  StampCausedBy,
+  withCausedBy,
+} from './utils/actionCause'
+import {
+  CurrentSagaName,
+  CurrentSagaNode,
+  makeSagaNodeId,
+  SagaMonitorService,
+} from './utils/sagaMonitor'
+import { completeOnEnd, EndOfStream } from './utils/endOfStream'
+import { SagaErrorReporter } from './utils/supervise'
+import {
+  ActionListener,
+  DispatchedState,
+  SubscribeStoreActionFn,
+} from './utils/subscribeStoreActionEnhancerFactory'
 
 export type Store<
   S = any,
@@ -10,6 +53,9 @@ export type Store<
   StateExt extends unknown = unknown,
 > = ReduxStore<S, A, StateExt> & {
   subscribeAction: SubscribeStoreActionFn
+  getStateVersion: () => number
+  /** Whether `END` was dispatched, provided by the saga runner's enhancer */
+  isEnded?: () => boolean
 }
 
 // Service tags for dependency injection
@@ -18,9 +64,14 @@ export class StoreService extends Context.Tag('StoreService')<
   {
     readonly dispatch: (action: UnknownAction) => void
     readonly getState: () => ReturnType<Store['getState']>
-    readonly subscribeAction: (
-      listener: (action: UnknownAction, stateSnapshot: unknown) => void,
-    ) => () => void
+    /** Version of the current state, see `DispatchedState.version` */
+    readonly getStateVersion: () => number
+    readonly subscribeAction: (listener: ActionListener) => () => void
+    /**
+     * Whether `END` was dispatched since the sagas started, so that streams
+     * subscribing afterwards end right away
+     */
+    readonly isEnded: () => boolean
   }
 >() {}
 
@@ -30,28 +81,49 @@ export const makeStoreService = (store: Store): Layer.Layer<StoreService> =>
     StoreService.of({
       dispatch: action => store.dispatch(action),
       getState: () => store.getState(),
+      getStateVersion: () => store.getStateVersion(),
       subscribeAction: listener => store.subscribeAction(listener),
+      isEnded: () => store.isEnded?.() ?? false,
     }),
   )
 
+/**
+ * Dispatch it to complete every action and state stream, so that sagas
+ * waiting for actions finish, e.g. before serializing the state on the server.
+ * Streams subscribing after it end right away, until the sagas are started
+ * again.
+ */
+export const END = { type: '@@effect-saga/END' } as const
+
+export const isEnd = (action: unknown): action is typeof END =>
+  typeof action === 'object' &&
+  action !== null &&
+  (action as { type?: unknown }).type === END.type
+
+export type ActionStreamItem<T extends Action = UnknownAction, S = unknown> = {
+  action: T
+  stateSnapshot: S
+  /** The state right after the reducer handled this action */
+  state: S
+  /** Version of `state`, increasing with every dispatch */
+  version: number
+}
+
 const storeActionStream = Stream.asyncPush(
-  (
-    emit: StreamEmit.EmitOpsPush<
-      never,
-      {
-        action: UnknownAction
-        stateSnapshot: unknown
-        state: unknown
-      }
-    >,
-  ) =>
+  (emit: StreamEmit.EmitOpsPush<never, ActionStreamItem>) =>
     Effect.acquireRelease(
       Effect.gen(function* () {
         const store = yield* StoreService
 
-        return store.subscribeAction((action, stateSnapshot) => {
-          void emit.single({ action, stateSnapshot, state: store.getState() })
-        })
+        const unsubscribe = store.subscribeAction(
+          (action, stateSnapshot, dispatched) => {
+            if (isEnd(action)) return void emit.end()
+            void emit.single({ action, stateSnapshot, ...dispatched })
+          },
+        )
+        if (store.isEnded()) void emit.end()
+
+        return unsubscribe
       }),
       unsubscribe => Effect.sync(() => unsubscribe()),
     ),
@@ -61,102 +133,1241 @@ export interface ActionPattern<T extends Action = Action> {
   (action: unknown): action is T
 }
 
+/**
+ * Anything with a `match` type guard, e.g. Redux Toolkit action creators
+ */
+export interface ActionMatcher<T extends Action = Action> {
+  readonly match: (action: unknown) => action is T
+}
+
+/**
+ * What `actionPattern` and `makeActionStream` accept: an action type, an
+ * action creator or matcher, a predicate, or a list of them (matching any)
+ */
+export type ActionPatternInput =
+  | string
+  | ActionMatcher<any>
+  | ((action: any) => boolean)
+  | ReadonlyArray<ActionPatternInput>
+
+/**
+ * The action type matched by an `ActionPatternInput`, narrowed when the input
+ * is a type guard or an action creator. `ActionPatternInput` itself infers
+ * `Action`, instead of recursing into its own array case.
+ */
+export type InferPatternAction<P> = ActionPatternInput extends P
+  ? Action
+  : P extends ActionMatcher<infer T>
+    ? T
+    : P extends (action: any) => action is infer T
+      ? Extract<T, Action>
+      : P extends ReadonlyArray<infer Item>
+        ? InferPatternAction<Item>
+        : Action
+
+const isAction = (action: unknown): action is Action =>
+  !!action && typeof action === 'object' && 'type' in action
+
+const toPredicate = (
+  input: ActionPatternInput,
+): ((action: Action) => boolean) => {
+  if (typeof input === 'string') return action => action.type === input
+
+  if (Array.isArray(input)) {
+    const predicates = input.map(toPredicate)
+    return action => predicates.some(p => p(action))
+  }
+
+  if ('match' in input && typeof input.match === 'function') {
+    return (input as ActionMatcher).match
+  }
+
+  return input as (action: Action) => boolean
+}
+
 export function actionPattern<T extends Action>(): ActionPattern<T>
 export function actionPattern<T extends Action>(
   type: T['type'] | T['type'][],
 ): ActionPattern<T>
-export function actionPattern<T extends Action>(
-  type?: T['type'] | T['type'][],
-): ActionPattern<T> {
-  return (action): action is T => {
-    if (!action || typeof action !== 'object' || !('type' in action)) {
-      return false
-    }
+export function actionPattern<P extends ActionPatternInput>(
+  input: P,
+): ActionPattern<InferPatternAction<P>>
+export function actionPattern(input?: ActionPatternInput): ActionPattern {
+  return makeActionPattern(input)
+}
 
-    if (type == null) return true
+const makeActionPattern = (input?: ActionPatternInput): ActionPattern => {
+  const predicate = input == null ? null : toPredicate(input)
 
-    const types = Array.isArray(type) ? type : [type]
-    return types.includes(action.type as T['type'])
+  return (action): action is Action => {
+    if (!isAction(action)) return false
+    return predicate == null || predicate(action)
   }
 }
 
-export function makeActionStream<T extends Action>(
-  pattern: ActionPattern<T>,
-): Stream.Stream<
-  { action: T; stateSnapshot: unknown; state: unknown },
-  never,
-  StoreService
+type UnionToIntersection<U> = (U extends any ? (x: U) => void : never) extends (
+  x: infer I,
+) => void
+  ? I
+  : never
+
+/** Matches actions matching any of the patterns */
+export function anyOf<Ps extends ActionPatternInput[]>(
+  ...patterns: Ps
+): ActionPattern<InferPatternAction<Ps[number]>> {
+  return makeActionPattern(patterns) as ActionPattern<any>
+}
+
+/** Matches actions matching all of the patterns */
+export function allOf<Ps extends ActionPatternInput[]>(
+  ...patterns: Ps
+): ActionPattern<
+  Extract<UnionToIntersection<InferPatternAction<Ps[number]>>, Action>
 > {
+  const predicates = patterns.map(toPredicate)
+
+  return (action): action is any =>
+    isAction(action) && predicates.every(p => p(action))
+}
+
+/** Matches actions not matching the pattern */
+export function not(pattern: ActionPatternInput): ActionPattern {
+  const predicate = toPredicate(pattern)
+
+  return (action): action is Action => isAction(action) && !predicate(action)
+}
+
+export function makeActionStream<P extends ActionPatternInput>(
+  pattern: P,
+): Stream.Stream<ActionStreamItem<InferPatternAction<P>>, never, StoreService> {
+  const matches = makeActionPattern(pattern)
+
   return storeActionStream.pipe(
-    Stream.filter((a): a is typeof a & { action: T } => pattern(a.action)),
+    Stream.filter(a => matches(a.action)),
+  ) as Stream.Stream<any, never, StoreService>
+}
+
+export class ActionChannelOverflowError extends Data.TaggedError(
+  'ActionChannelOverflowError',
+)<{
+  readonly size: number
+}> {}
+
+/**
+ * How an action channel buffers actions nobody has taken yet.
+ *
+ * - `unbounded` (default): keep every action
+ * - `sliding`: keep the latest `size` actions, dropping the oldest ones
+ * - `dropping`: keep the first `size` actions, dropping new ones
+ * - `fixed`: keep `size` actions, fail with `ActionChannelOverflowError` when
+ *   one more arrives
+ */
+export type ActionChannelBuffer =
+  | { readonly strategy: 'unbounded' }
+  | {
+      readonly strategy: 'sliding' | 'dropping' | 'fixed'
+      readonly size: number
+    }
+
+type ActionChannelEntry<T extends Action> =
+  | { readonly _tag: 'item'; readonly item: ActionStreamItem<T> }
+  | { readonly _tag: 'overflow'; readonly size: number }
+  | { readonly _tag: 'end' }
+
+/**
+ * Subscribes to the store right away (for as long as the current scope is
+ * open) and buffers matching actions, so actions dispatched between two
+ * `take`s are not lost.
+ */
+export const actionChannel = <T extends Action>(
+  pattern: ActionPattern<T>,
+  buffer: ActionChannelBuffer = { strategy: 'unbounded' },
+): Effect.Effect<
+  Stream.Stream<ActionStreamItem<T>, ActionChannelOverflowError>,
+  never,
+  StoreService | Scope.Scope
+> =>
+  Effect.gen(function* () {
+    const store = yield* StoreService
+
+    const queue = yield* Effect.acquireRelease(
+      buffer.strategy === 'sliding'
+        ? Queue.sliding<ActionChannelEntry<T>>(buffer.size)
+        : buffer.strategy === 'dropping'
+          ? Queue.dropping<ActionChannelEntry<T>>(buffer.size)
+          : Queue.unbounded<ActionChannelEntry<T>>(),
+      Queue.shutdown,
+    )
+
+    let overflowed = false
+
+    const offer = (entry: ActionChannelEntry<T>): void => {
+      Effect.runSync(Queue.offer(queue, entry))
+    }
+
+    yield* Effect.acquireRelease(
+      Effect.sync(() => {
+        const unsubscribe = store.subscribeAction(
+          (action, stateSnapshot, dispatched) => {
+            if (isEnd(action)) return offer({ _tag: 'end' })
+            if (overflowed || !pattern(action)) return
+
+            if (
+              buffer.strategy === 'fixed' &&
+              Option.getOrElse(queue.unsafeSize(), () => 0) >= buffer.size
+            ) {
+              overflowed = true
+              offer({ _tag: 'overflow', size: buffer.size })
+              return
+            }
+
+            offer({
+              _tag: 'item',
+              item: { action, stateSnapshot, ...dispatched },
+            })
+          },
+        )
+        if (store.isEnded()) offer({ _tag: 'end' })
+
+        return unsubscribe
+      }),
+      unsubscribe => Effect.sync(() => unsubscribe()),
+    )
+
+    return Stream.fromQueue(queue, { maxChunkSize: 1 }).pipe(
+      Stream.takeWhile(entry => entry._tag !== 'end'),
+      Stream.mapEffect(entry =>
+        entry._tag === 'item'
+          ? Effect.succeed(entry.item)
+          : Effect.fail(new ActionChannelOverflowError({ size: entry.size })),
+      ),
+    )
+  })
+
+/**
+ * How `makeStateStream` decides that the selected value did not change.
+ *
+ * - `reference` (default): `===`
+ * - `equal`: Effect's `Equal.equals`, for `Data` classes and other `Equal` values
+ * - `shallow`: same keys with `Object.is` values, one level deep
+ * - `deep`: recursive comparison of plain objects and arrays
+ * - a custom `(previous, next) => boolean` function
+ */
+export type StateEquality<T = any> =
+  | 'reference'
+  | 'equal'
+  | 'shallow'
+  | 'deep'
+  | ((previous: T, next: T) => boolean)
+
+export interface StateStreamOptions<T> {
+  equals?: StateEquality<T>
+}
+
+const toEqualityFn = <T>(
+  equals: StateEquality<T>,
+): ((previous: T, next: T) => boolean) => {
+  switch (equals) {
+    case 'reference':
+      return (a, b) => a === b
+    case 'equal':
+      return Equal.equals
+    case 'shallow':
+      return shallowEqual
+    case 'deep':
+      return deepEqual
+    default:
+      return equals
+  }
+}
+
+interface VersionedState extends DispatchedState {
+  /** The dispatched action, `undefined` for the state read on subscription */
+  readonly action: UnknownAction | undefined
+}
+
+/**
+ * The current state, then the state after every later dispatch. Versions
+ * already seen are skipped, so the current state is never emitted twice and
+ * nested dispatches never emit an outdated state.
+ */
+const versionedStateStream: Stream.Stream<VersionedState, never, StoreService> =
+  Stream.unwrapScoped(
+    Effect.gen(function* () {
+      const store = yield* StoreService
+
+      // `None` marks the end of the stream
+      const queue = yield* Effect.acquireRelease(
+        Queue.unbounded<Option.Option<VersionedState>>(),
+        Queue.shutdown,
+      )
+
+      yield* Effect.acquireRelease(
+        Effect.sync(() => {
+          const unsubscribe = store.subscribeAction(
+            (action, _stateSnapshot, dispatched) => {
+              const entry = isEnd(action)
+                ? Option.none()
+                : Option.some({ action, ...dispatched })
+              Effect.runSync(Queue.offer(queue, entry))
+            },
+          )
+          if (store.isEnded()) Effect.runSync(Queue.offer(queue, Option.none()))
+
+          return unsubscribe
+        }),
+        unsubscribe => Effect.sync(() => unsubscribe()),
+      )
+
+      // Read after subscribing, so that no dispatch can be missed
+      let latestVersion = store.getStateVersion()
+      const current: VersionedState = {
+        action: undefined,
+        version: latestVersion,
+        state: store.getState(),
+      }
+
+      return Stream.concat(
+        Stream.succeed(current),
+        Stream.fromQueue(queue).pipe(
+          Stream.takeWhile(Option.isSome),
+          Stream.map(entry => entry.value),
+          Stream.filter(dispatched => {
+            if (dispatched.version <= latestVersion) return false
+            latestVersion = dispatched.version
+            return true
+          }),
+        ),
+      )
+    }),
   )
+
+export type StructuredSelector = Record<string, (state: any) => unknown>
+
+export type StructuredSelectorResult<Selectors extends StructuredSelector> = {
+  [K in keyof Selectors]: ReturnType<Selectors[K]>
 }
 
+/**
+ * Streams the selected value: the current one first, then every time it
+ * changes according to `options.equals`.
+ *
+ * Also accepts an object of selectors, emitting an object of their results
+ * compared shallowly by default, so that only a change in one of the results
+ * causes an emission.
+ */
 export function makeStateStream<S, T>(
   selector: (state: S) => T,
-): Stream.Stream<T, never, StoreService> {
-  return Stream.merge(
-    Stream.fromEffect(
-      Effect.gen(function* () {
-        const { getState } = yield* StoreService
-        return getState()
-      }),
+  options?: StateStreamOptions<T>,
+): Stream.Stream<T, never, StoreService>
+export function makeStateStream<Selectors extends StructuredSelector>(
+  selectors: Selectors,
+  options?: StateStreamOptions<StructuredSelectorResult<Selectors>>,
+): Stream.Stream<StructuredSelectorResult<Selectors>, never, StoreService>
+export function makeStateStream(
+  selector: ((state: any) => unknown) | StructuredSelector,
+  options: StateStreamOptions<any> = {},
+): Stream.Stream<unknown, never, StoreService> {
+  const select =
+    typeof selector === 'function'
+      ? selector
+      : (state: unknown) =>
+          Object.fromEntries(
+            Object.entries(selector).map(([key, s]) => [key, s(state)]),
+          )
+
+  const equals =
+    options.equals ?? (typeof selector === 'function' ? 'reference' : 'shallow')
+
+  return versionedStateStream.pipe(
+    Stream.map(({ state }) => select(state)),
+    streamDistinctUntilChanged(toEqualityFn(equals)),
+  )
+}
+
+export interface StateChange<T, A extends Action = UnknownAction> {
+  readonly previous: T
+  readonly current: T
+  /** The action whose reducer run caused the change */
+  readonly action: A
+  /** Version of the state holding `current`, see `ActionStreamItem.version` */
+  readonly version: number
+}
+
+/**
+ * Streams every change of the selected value along with the previous value
+ * and the action that caused it. Unlike `makeStateStream`, it does not emit
+ * the current value on subscription.
+ *
+ * Changes follow the state versions like `makeStateStream`: when dispatches
+ * nest, outdated states are skipped and `previous` is the value of the last
+ * state seen, so the last `current` is always the value in the store.
+ */
+export function makeStateChangeStream<S, T>(
+  selector: (state: S) => T,
+  options: StateStreamOptions<T> = {},
+): Stream.Stream<StateChange<T>, never, StoreService> {
+  const equals = toEqualityFn(options.equals ?? 'reference')
+
+  return versionedStateStream.pipe(
+    Stream.mapAccum(
+      Option.none<T>(),
+      (previous, { action, version, state }) => {
+        const current = selector(state as S)
+        const change =
+          Option.isSome(previous) &&
+          action !== undefined &&
+          !equals(previous.value, current)
+            ? Option.some({
+                previous: previous.value,
+                current,
+                action,
+                version,
+              })
+            : Option.none()
+
+        return [Option.some(current), change]
+      },
     ),
-    storeActionStream.pipe(Stream.map(a => a.state)),
-  ).pipe(
-    Stream.map(a => selector(a)),
-    streamDistinctUntilChanged((a, b) => a === b),
+    Stream.filterMap(identity),
   )
 }
 
+/** A value to compare with `===`, or a predicate */
+export type StateMatcher<T> = T | ((value: T) => boolean)
+
+const matchesState = <T>(matcher: StateMatcher<T>, value: T): boolean =>
+  typeof matcher === 'function'
+    ? (matcher as (value: T) => boolean)(value)
+    : matcher === value
+
+/**
+ * Runs the handler (concurrently, like `takeEvery`) every time the selected
+ * value goes from a value matching `from` to a value matching `to`
+ */
+export const onStateTransition = Effect.fn('onStateTransition')(function* <
+  S,
+  T,
+  AOutput,
+  E,
+  R,
+>(
+  selector: (state: S) => T,
+  from: StateMatcher<T>,
+  to: StateMatcher<T>,
+  handler: (change: StateChange<T>) => Effect.Effect<AOutput, E, R>,
+) {
+  yield* runHandlers<StateChange<T>, AOutput | void, E, R | StoreService>(
+    makeStateChangeStream(selector).pipe(
+      Stream.filter(
+        change =>
+          matchesState(from, change.previous) &&
+          matchesState(to, change.current),
+      ),
+    ),
+    instrumentHandler('onStateTransition', handler),
+    { concurrency: 'unbounded' },
+  )
+})
+
+export class WaitForStateTimeoutError extends Data.TaggedError(
+  'WaitForStateTimeoutError',
+)<{
+  readonly timeout: Duration.Duration
+}> {}
+
+export interface WaitForStateOptions {
+  /** Fails with `WaitForStateTimeoutError` when the state does not match in time */
+  timeout?: Duration.DurationInput
+}
+
+/**
+ * Waits until the selected value satisfies the predicate and returns it.
+ *
+ * Subscribes to actions before reading the current state, so that a change
+ * happening in between cannot be missed. Fails with `EndOfStream` when `END`
+ * is dispatched first, or was dispatched already and the current value does
+ * not satisfy the predicate.
+ */
+export const waitForState = Effect.fn('waitForState')(function* <S, T>(
+  selector: (state: S) => T,
+  predicate: (value: T) => boolean,
+  options: WaitForStateOptions = {},
+) {
+  const store = yield* StoreService
+
+  const wait = Effect.scoped(
+    Effect.gen(function* () {
+      const matched = yield* Deferred.make<T, EndOfStream>()
+
+      yield* Effect.acquireRelease(
+        Effect.sync(() => {
+          const unsubscribe = store.subscribeAction(
+            (action, _stateSnapshot, { state }) => {
+              if (isEnd(action)) {
+                return Deferred.unsafeDone(
+                  matched,
+                  Exit.fail(new EndOfStream()),
+                )
+              }
+
+              const value = selector(state as S)
+              if (predicate(value)) {
+                Deferred.unsafeDone(matched, Exit.succeed(value))
+              }
+            },
+          )
+          if (store.isEnded()) {
+            Deferred.unsafeDone(matched, Exit.fail(new EndOfStream()))
+          }
+
+          return unsubscribe
+        }),
+        unsubscribe => Effect.sync(() => unsubscribe()),
+      )
+
+      const current = selector(store.getState())
+      if (predicate(current)) return current
+
+      return yield* Deferred.await(matched)
+    }),
+  )
+
+  if (options.timeout == null) return yield* wait
+
+  const timeout = Duration.decode(options.timeout)
+  return yield* wait.pipe(
+    Effect.timeoutFail({
+      duration: timeout,
+      onTimeout: () => new WaitForStateTimeoutError({ timeout }),
+    }),
+  )
+})
+
+/**
+ * Takes the first value of the stream. If the stream ends first, e.g. after
+ * `END` was dispatched, fails with `EndOfStream`. A taken action becomes the
+ * `CurrentActionCause` of the rest of the saga.
+ */
 export function take<A, E, R>(
   stream: Stream.Stream<A, E, R>,
-): Effect.Effect<A, E, R> {
+): Effect.Effect<A, E | EndOfStream, R> {
   return stream.pipe(
-    Stream.take(1),
-    Stream.runCollect,
-    Effect.map(chunk => Chunk.unsafeGet(chunk, 0)),
+    Stream.runHead,
+    Effect.flatMap(
+      Option.match({
+        onNone: () => Effect.fail(new EndOfStream()),
+        onSome: value => {
+          const cause = causeOf(value)
+          return cause
+            ? FiberRef.set(CurrentActionCause, cause).pipe(Effect.as(value))
+            : Effect.succeed(value)
+        },
+      }),
+    ),
   )
 }
 
+/**
+ * Races patterns (and durations) by key, e.g.
+ * `{ success: pattern, failure: pattern, timeout: '5 seconds' }`
+ */
+export type RaceActionsSpec = Record<
+  string,
+  ActionPattern<any> | Duration.DurationInput
+>
+
+export type RaceActionsResult<Spec extends RaceActionsSpec> = {
+  [K in keyof Spec & string]: Spec[K] extends ActionPattern<infer T>
+    ? { readonly _tag: K } & ActionStreamItem<T>
+    : { readonly _tag: K }
+}[keyof Spec & string]
+
+/**
+ * Waits for whichever pattern matches first (or duration elapses first), and
+ * returns it tagged with its key. Losing subscriptions are released. Fails
+ * with `EndOfStream` as soon as `END` is dispatched.
+ */
+export const raceActions = Effect.fn('raceActions')(function* <
+  Spec extends RaceActionsSpec,
+>(spec: Spec) {
+  // `raceAll` skips failed racers, so `EndOfStream` has to win as a success
+  const racers = Object.entries(spec).map(
+    ([key, value]): Effect.Effect<
+      Either.Either<any, EndOfStream>,
+      never,
+      StoreService
+    > =>
+      typeof value === 'function'
+        ? take(makeActionStream(value)).pipe(
+            Effect.map(item => ({ _tag: key, ...item })),
+            Effect.either,
+          )
+        : Effect.as(Effect.sleep(value), Either.right({ _tag: key })),
+  )
+
+  return (yield* yield* Effect.raceAll(racers)) as RaceActionsResult<Spec>
+})
+
+export type AllActionsResult<Spec extends Record<string, ActionPattern<any>>> =
+  {
+    [K in keyof Spec]: Spec[K] extends ActionPattern<infer T>
+      ? ActionStreamItem<T>
+      : never
+  }
+
+/**
+ * Waits until every pattern has matched an action, and returns the first
+ * match of each by key
+ */
+export const allActions = Effect.fn('allActions')(function* <
+  Spec extends Record<string, ActionPattern<any>>,
+>(spec: Spec) {
+  const result = yield* Effect.all(
+    Object.fromEntries(
+      Object.entries(spec).map(([key, pattern]) => [
+        key,
+        take(makeActionStream(pattern)),
+      ]),
+    ),
+    { concurrency: 'unbounded' },
+  )
+
+  return result as AllActionsResult<Spec>
+})
+
+/**
+ * How a saga helper schedules handlers for incoming stream values.
+ *
+ * - `concurrency`: how many handlers may run at the same time
+ * - `overflow`: what happens to a value arriving while all slots are busy
+ *   - `queue` (default): wait for a free slot, values are handled in order
+ *   - `dropNewest`: ignore the incoming value
+ *   - `dropOldest`: interrupt the oldest running handler to make room
+ */
+export interface TakeWithOptions {
+  readonly concurrency: number | 'unbounded'
+  readonly overflow?: 'queue' | 'dropNewest' | 'dropOldest'
+}
+
+/**
+ * By default a failing handler fails the whole helper, which then stops
+ * handling values. Setting `onHandlerError` or `errorAction` isolates every
+ * handler run instead: its failure is handled and the helper keeps going.
+ */
+export interface HandlerErrorOptions<AInput, E, R> {
+  /**
+   * `'report'` sends failures to the runner's `onError` (through
+   * `SagaErrorReporter`), a function handles them itself
+   */
+  readonly onHandlerError?:
+    | 'report'
+    | ((cause: Cause.Cause<E>, value: AInput) => Effect.Effect<void, never, R>)
+  /** Builds an action dispatched after every handler failure */
+  readonly errorAction?: (cause: Cause.Cause<E>, value: AInput) => Action
+}
+
+const isolateHandler = <AInput, AOutput, E, R>(
+  handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+  options: HandlerErrorOptions<AInput, E, R>,
+): ((value: AInput) => Effect.Effect<AOutput | void, E, R>) => {
+  const { onHandlerError = 'report', errorAction } = options
+
+  return value =>
+    handler(value).pipe(
+      Effect.catchAllCause(cause =>
+        Effect.gen(function* () {
+          if (Cause.isInterruptedOnly(cause)) {
+            return yield* Effect.failCause(cause)
+          }
+
+          if (onHandlerError === 'report') {
+            const report = yield* SagaErrorReporter
+            report(Exit.failCause(cause) as Exit.Failure<never, E>, {
+              restarts: 0,
+            })
+          } else {
+            yield* onHandlerError(cause, value)
+          }
+
+          if (errorAction) {
+            const store = yield* Effect.serviceOption(StoreService)
+            if (Option.isSome(store)) {
+              store.value.dispatch(errorAction(cause, value) as UnknownAction)
+            }
+          }
+        }),
+      ),
+    )
+}
+
+const actionOf = (value: unknown): Action | undefined => {
+  if (typeof value !== 'object' || value == null || !('action' in value)) {
+    return undefined
+  }
+  const { action } = value as { action: unknown }
+  return typeof action === 'object' && action != null && 'type' in action
+    ? (action as Action)
+    : undefined
+}
+
+/**
+ * Runs handlers of actions in a span named after the action type, with the
+ * action as their `CurrentActionCause`, and reports every run to the
+ * `SagaMonitorService`, if any, making the handler the parent of the handlers
+ * and actions it starts. A handler ended by `EndOfStream` completes, without
+ * affecting the other handlers.
+ */
+const instrumentHandler =
+  <AInput, AOutput, E, R>(
+    helper: string,
+    handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+  ): ((value: AInput) => Effect.Effect<AOutput | void, E, R>) =>
+  value =>
+    Effect.gen(function* () {
+      const cause = causeOf(value)
+      const sagaName = yield* FiberRef.get(CurrentSagaName)
+      const run = completeOnEnd(handler(value))
+      const handled = cause
+        ? run.pipe(
+            Effect.locally(CurrentActionCause, cause),
+            Effect.withSpan(cause.type, {
+              attributes: {
+                'action.type': cause.type,
+                'action.version': cause.id,
+                ...(sagaName == null ? {} : { 'saga.name': sagaName }),
+              },
+            }),
+          )
+        : run
+
+      const monitor = yield* SagaMonitorService
+      if (!monitor) return yield* handled
+
+      const id = makeSagaNodeId('handler')
+      monitor.onEvent({
+        _tag: 'HandlerForked',
+        id,
+        parentId: yield* FiberRef.get(CurrentSagaNode),
+        helper,
+        action: actionOf(value),
+      })
+
+      return yield* handled.pipe(
+        Effect.locally(CurrentSagaNode, id),
+        Effect.onExit(exit =>
+          Effect.sync(() =>
+            monitor.onEvent(
+              Exit.isSuccess(exit)
+                ? { _tag: 'HandlerCompleted', id }
+                : Cause.isInterruptedOnly(exit.cause)
+                  ? { _tag: 'HandlerInterrupted', id }
+                  : { _tag: 'HandlerFailed', id, cause: exit.cause },
+            ),
+          ),
+        ),
+      )
+    })
+
+const runHandlers = <AInput, AOutput, E, R>(
+  stream: Stream.Stream<AInput, E, R>,
+  handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+  options: TakeWithOptions & HandlerErrorOptions<AInput, E, R>,
+): Effect.Effect<void, E, R> => {
+  const { concurrency, overflow = 'queue' } = options
+
+  const run =
+    options.onHandlerError || options.errorAction
+      ? isolateHandler(handler, options)
+      : handler
+
+  if (concurrency === 'unbounded' || overflow === 'queue') {
+    return stream.pipe(
+      Stream.flatMap(a => run(a), { concurrency }),
+      Stream.run(Sink.drain),
+    )
+  }
+
+  if (overflow === 'dropOldest') {
+    return stream.pipe(
+      Stream.flatMap(a => run(a), { concurrency, switch: true }),
+      Stream.run(Sink.drain),
+    )
+  }
+
+  return Effect.gen(function* () {
+    const active = yield* Ref.make(0)
+
+    yield* stream.pipe(
+      Stream.filterEffect(() =>
+        Ref.modify(active, n => (n < concurrency ? [true, n + 1] : [false, n])),
+      ),
+      Stream.flatMap(
+        a => run(a).pipe(Effect.ensuring(Ref.update(active, n => n - 1))),
+        { concurrency: 'unbounded' },
+      ),
+      Stream.run(Sink.drain),
+    )
+  })
+}
+
+export const takeWith =
+  (options: TakeWithOptions) =>
+  <AInput, AOutput, E, R>(
+    stream: Stream.Stream<AInput, E, R>,
+    handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+  ): Effect.Effect<void, E, R> =>
+    runHandlers(stream, instrumentHandler('takeWith', handler), options).pipe(
+      Effect.withSpan('takeWith'),
+    )
+
 export const takeEvery = Effect.fn('takeEvery')(function* <
   AInput,
   AOutput,
   E,
   R,
+>(
+  stream: Stream.Stream<AInput, E, R>,
+  handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+  options: HandlerErrorOptions<AInput, E, R> = {},
+) {
+  yield* runHandlers(stream, instrumentHandler('takeEvery', handler), {
+    ...options,
+    concurrency: 'unbounded',
+  })
+})
+
+export const takeLatest = Effect.fn('takeLatest')(function* <
+  AInput,
+  AOutput,
+  E,
+  R,
+>(
+  stream: Stream.Stream<AInput, E, R>,
+  handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+  options: HandlerErrorOptions<AInput, E, R> = {},
+) {
+  yield* runHandlers(stream, instrumentHandler('takeLatest', handler), {
+    ...options,
+    concurrency: 1,
+    overflow: 'dropOldest',
+  })
+})
+
+export const takeLeading = Effect.fn('takeLeading')(function* <
+  AInput,
+  AOutput,
+  E,
+  R,
+>(
+  stream: Stream.Stream<AInput, E, R>,
+  handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+) {
+  yield* runHandlers(stream, instrumentHandler('takeLeading', handler), {
+    concurrency: 1,
+    overflow: 'dropNewest',
+  })
+})
+
+export const takeQueue = Effect.fn('takeQueue')(function* <
+  AInput,
+  AOutput,
+  E,
+  R,
 >(
   stream: Stream.Stream<AInput, E, R>,
   handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
 ) {
-  yield* stream.pipe(
-    Stream.flatMap(a => handler(a), {
-      concurrency: 'unbounded',
+  yield* runHandlers(stream, instrumentHandler('takeQueue', handler), {
+    concurrency: 1,
+    overflow: 'queue',
+  })
+})
+
+type Fork<E, R> = (
+  effect: Effect.Effect<void, E, R>,
+) => Effect.Effect<Fiber.RuntimeFiber<void, E>, never, R>
+
+/**
+ * Feeds every stream value to `onValue`, which decides what to fork for it.
+ * Completes once the stream ends and every forked fiber is done, and fails as
+ * soon as any forked fiber fails.
+ */
+const runForked = <AInput, E, R>(
+  stream: Stream.Stream<AInput, E, R>,
+  onValue: (value: AInput, fork: Fork<E, R>) => Effect.Effect<void, never, R>,
+): Effect.Effect<void, E, R> =>
+  Effect.scoped(
+    Effect.gen(function* () {
+      const fibers = yield* FiberSet.make<void, E>()
+      const fork: Fork<E, R> = effect => FiberSet.run(fibers, effect)
+
+      yield* stream.pipe(
+        Stream.runForEach(value => onValue(value, fork)),
+        Effect.zipRight(FiberSet.awaitEmpty(fibers)),
+        Effect.raceFirst(FiberSet.join(fibers)),
+      )
     }),
-    Stream.run(Sink.drain),
+  )
+
+type KeyedOverflow = 'queue' | 'dropNewest' | 'dropOldest'
+
+interface Lane<AInput, E> {
+  /** Set once the lane's fiber is forked */
+  fiber?: Fiber.RuntimeFiber<void, E>
+  pending: AInput[]
+}
+
+const runKeyedHandlers = <AInput, AOutput, K, E, R>(
+  stream: Stream.Stream<AInput, E, R>,
+  keyFn: (value: AInput) => K,
+  handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+  overflow: KeyedOverflow,
+): Effect.Effect<void, E, R> =>
+  Effect.suspend(() => {
+    const lanes = new Map<K, Lane<AInput, E>>()
+
+    const startLane = (
+      key: K,
+      first: AInput,
+      fork: Fork<E, R>,
+    ): Effect.Effect<void, never, R> =>
+      Effect.gen(function* () {
+        const lane: Lane<AInput, E> = { pending: [] }
+
+        const loop = (value: AInput): Effect.Effect<void, E, R> =>
+          handler(value).pipe(
+            Effect.zipRight(
+              Effect.suspend(() =>
+                lane.pending.length > 0
+                  ? loop(lane.pending.shift()!)
+                  : Effect.void,
+              ),
+            ),
+          )
+
+        lanes.set(key, lane)
+        lane.fiber = yield* fork(
+          loop(first).pipe(
+            // Remove idle lanes so that long-lived watchers do not keep
+            // one entry per key ever seen
+            Effect.ensuring(
+              Effect.sync(() => {
+                if (lanes.get(key) === lane) lanes.delete(key)
+              }),
+            ),
+          ),
+        )
+      })
+
+    return runForked(stream, (value, fork) =>
+      Effect.suspend(() => {
+        const key = keyFn(value)
+        const lane = lanes.get(key)
+
+        if (!lane) return startLane(key, value, fork)
+
+        switch (overflow) {
+          case 'dropNewest':
+            return Effect.void
+          case 'queue':
+            lane.pending.push(value)
+            return Effect.void
+          case 'dropOldest':
+            return (
+              lane.fiber ? Fiber.interrupt(lane.fiber) : Effect.void
+            ).pipe(Effect.zipRight(startLane(key, value, fork)))
+        }
+      }),
+    )
+  })
+
+export const takeLatestBy = Effect.fn('takeLatestBy')(function* <
+  AInput,
+  AOutput,
+  K,
+  E,
+  R,
+>(
+  stream: Stream.Stream<AInput, E, R>,
+  keyFn: (value: AInput) => K,
+  handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+) {
+  yield* runKeyedHandlers(
+    stream,
+    keyFn,
+    instrumentHandler('takeLatestBy', handler),
+    'dropOldest',
   )
 })
 
-export const takeLatest = Effect.fn('takeLatest')(function* <
+export const takeLeadingBy = Effect.fn('takeLeadingBy')(function* <
   AInput,
   AOutput,
+  K,
   E,
   R,
 >(
   stream: Stream.Stream<AInput, E, R>,
+  keyFn: (value: AInput) => K,
   handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
 ) {
-  yield* stream.pipe(
-    Stream.flatMap(a => handler(a), {
-      concurrency: 1,
-      switch: true,
+  yield* runKeyedHandlers(
+    stream,
+    keyFn,
+    instrumentHandler('takeLeadingBy', handler),
+    'dropNewest',
+  )
+})
+
+export const takeQueueBy = Effect.fn('takeQueueBy')(function* <
+  AInput,
+  AOutput,
+  K,
+  E,
+  R,
+>(
+  stream: Stream.Stream<AInput, E, R>,
+  keyFn: (value: AInput) => K,
+  handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+) {
+  yield* runKeyedHandlers(
+    stream,
+    keyFn,
+    instrumentHandler('takeQueueBy', handler),
+    'queue',
+  )
+})
+
+export const debounce = Effect.fn('debounce')(function* <AInput, AOutput, E, R>(
+  stream: Stream.Stream<AInput, E, R>,
+  duration: Duration.DurationInput,
+  handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+) {
+  yield* runHandlers(
+    stream.pipe(Stream.debounce(duration)),
+    instrumentHandler('debounce', handler),
+    { concurrency: 'unbounded' },
+  )
+})
+
+export interface ThrottleOptions {
+  /** Handle the first value of a window, defaults to `true` */
+  readonly leading?: boolean
+  /** Handle the last value received during a window once it ends, defaults to `true` */
+  readonly trailing?: boolean
+}
+
+export const throttle = Effect.fn('throttle')(function* <AInput, AOutput, E, R>(
+  stream: Stream.Stream<AInput, E, R>,
+  duration: Duration.DurationInput,
+  handler: (value: AInput) => Effect.Effect<AOutput, E, R>,
+  options: ThrottleOptions = {},
+) {
+  const { leading = true, trailing = true } = options
+  const run = instrumentHandler('throttle', handler)
+
+  let windowOpen = false
+  let trailingValue = Option.none<AInput>()
+
+  const openWindow = (fork: Fork<E, R>): Effect.Effect<void, never, R> =>
+    Effect.suspend(() => {
+      windowOpen = true
+      return fork(
+        Effect.sleep(duration).pipe(Effect.zipRight(closeWindow(fork))),
+      )
+    })
+
+  const closeWindow = (fork: Fork<E, R>): Effect.Effect<void, never, R> =>
+    Effect.suspend(() => {
+      windowOpen = false
+
+      if (Option.isNone(trailingValue)) return Effect.void
+
+      const value = trailingValue.value
+      trailingValue = Option.none()
+      return fork(Effect.asVoid(run(value))).pipe(
+        Effect.zipRight(openWindow(fork)),
+      )
+    })
+
+  yield* runForked(stream, (value, fork) =>
+    Effect.suspend(() => {
+      if (windowOpen) {
+        if (trailing) trailingValue = Option.some(value)
+        return Effect.void
+      }
+
+      if (leading) {
+        return fork(Effect.asVoid(run(value))).pipe(
+          Effect.zipRight(openWindow(fork)),
+        )
+      }
+
+      if (trailing) trailingValue = Option.some(value)
+      return openWindow(fork)
     }),
-    Stream.run(Sink.drain),
+  )
+})
+
+/**
+ * A buffer window for `bufferTime`: a duration, or a maximum size with an
+ * optional duration, whichever is reached first.
+ */
+export type BufferWindow =
+  | Duration.DurationInput
+  | {
+      readonly size: number
+      readonly duration?: Duration.DurationInput
+    }
+
+export const bufferTime = Effect.fn('bufferTime')(function* <
+  AInput,
+  AOutput,
+  E,
+  R,
+>(
+  stream: Stream.Stream<AInput, E, R>,
+  window: BufferWindow,
+  handler: (values: ReadonlyArray<AInput>) => Effect.Effect<AOutput, E, R>,
+) {
+  const { size, duration } =
+    typeof window === 'object' && window !== null && 'size' in window
+      ? window
+      : { size: Number.MAX_SAFE_INTEGER, duration: window }
+
+  const buffered =
+    duration == null
+      ? stream.pipe(Stream.grouped(size))
+      : stream.pipe(Stream.groupedWithin(size, duration))
+
+  yield* runHandlers(
+    buffered.pipe(
+      Stream.filter(Chunk.isNonEmpty),
+      Stream.map(Chunk.toReadonlyArray),
+    ),
+    instrumentHandler('bufferTime', handler),
+    { concurrency: 'unbounded' },
   )
 })
 
 export const put = Effect.fn('put')(function* <A extends Action>(action: A) {
   const { dispatch } = yield* StoreService
-  dispatch(action)
+  const cause = yield* FiberRef.get(CurrentActionCause)
+  const stamped = cause && (yield* StampCausedBy)
+  const dispatched = stamped ? withCausedBy(action, cause) : action
+
+  // Recorded on the caller's span, e.g. the handler's, the parent of `put`'s
+  const span = yield* Effect.option(Effect.currentSpan)
+  const callerSpan = Option.flatMap(span, ({ parent }) => parent)
+  if (Option.isSome(callerSpan) && callerSpan.value._tag === 'Span') {
+    callerSpan.value.event('put', yield* Clock.currentTimeNanos, {
+      'action.type': dispatched.type,
+      ...(cause ? { 'action.caused_by': cause.type } : {}),
+    })
+  }
+
+  const monitor = yield* SagaMonitorService
+  monitor?.onEvent({
+    _tag: 'ActionPut',
+    parentId: yield* FiberRef.get(CurrentSagaNode),
+    action: dispatched,
+  })
+  dispatch(dispatched)
+})
+
+export class PutAndAwaitTimeoutError extends Data.TaggedError(
+  'PutAndAwaitTimeoutError',
+)<{
+  readonly action: Action
+  readonly correlationId: string
+}> {}
+
+export class PutAndAwaitRejectedError<
+  F extends Action = Action,
+> extends Data.TaggedError('PutAndAwaitRejectedError')<{
+  readonly action: F
+  readonly correlationId: string
+}> {}
+
+export interface PutAndAwaitOptions<
+  T extends Action,
+  F extends Action = never,
+> {
+  /** Matches the successful reply */
+  reply: ActionPattern<T>
+  /** Matches an error reply, which fails with `PutAndAwaitRejectedError` */
+  error?: ActionPattern<F>
+  /**
+   * Reads the correlation id from a candidate reply, defaults to
+   * `action.meta.correlationId`
+   */
+  correlate?: (action: T | F) => unknown
+  /** Fails with `PutAndAwaitTimeoutError` when no reply arrives in time */
+  timeout?: Duration.DurationInput
+}
+
+let correlationCounter = 0
+
+const defaultCorrelate = (action: Action): unknown =>
+  (action as { meta?: { correlationId?: unknown } }).meta?.correlationId
+
+/**
+ * Dispatches `action` with a correlation id stamped into `meta.correlationId`
+ * and waits for the reply carrying the same id. The reply subscription is
+ * set up before dispatching, so a synchronous reply cannot be missed.
+ */
+export const putAndAwait = Effect.fn('putAndAwait')(function* <
+  A extends Action,
+  T extends Action,
+  F extends Action = never,
+>(action: A, options: PutAndAwaitOptions<T, F>) {
+  const correlationId = `effect-saga-${++correlationCounter}`
+  const correlate = options.correlate ?? defaultCorrelate
+  const { reply, error } = options
+
+  const replyPattern: ActionPattern<T | F> = (a): a is T | F =>
+    (reply(a) || (error?.(a) ?? false)) &&
+    correlate(a as T | F) === correlationId
+
+  const result = yield* Effect.scoped(
+    Effect.gen(function* () {
+      const channel = yield* actionChannel(replyPattern)
+
+      yield* put({
+        ...action,
+        meta: {
+          ...(action as { meta?: object }).meta,
+          correlationId,
+        },
+      })
+
+      return yield* take(channel).pipe(
+        Effect.catchTag('ActionChannelOverflowError', error =>
+          Effect.die(error),
+        ),
+      )
+    }),
+  ).pipe(
+    options.timeout == null
+      ? identity
+      : Effect.timeoutFail({
+          duration: options.timeout,
+          onTimeout: () =>
+            new PutAndAwaitTimeoutError({ action, correlationId }),
+        }),
+  )
+
+  if (error?.(result.action)) {
+    return yield* Effect.fail(
+      new PutAndAwaitRejectedError({
+        action: result.action as F,
+        correlationId,
+      }),
+    )
+  }
+
+  return result as ActionStreamItem<T>
 })
 
 export const select = Effect.fn('select')(function* <S, T>(
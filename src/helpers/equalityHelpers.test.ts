@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { deepEqual, shallowEqual } from './equalityHelpers'
+
+describe('equalityHelpers', () => {
+  describe('shallowEqual', () => {
+    it('should compare primitives by value', () => {
+      expect(shallowEqual(1, 1)).toBe(true)
+      expect(shallowEqual('a', 'b')).toBe(false)
+      expect(shallowEqual(NaN, NaN)).toBe(true)
+      expect(shallowEqual(null, {})).toBe(false)
+    })
+
+    it('should compare one level of keys', () => {
+      const nested = { a: 1 }
+      expect(shallowEqual({ x: 1, y: nested }, { x: 1, y: nested })).toBe(true)
+      expect(shallowEqual({ x: 1, y: { a: 1 } }, { x: 1, y: { a: 1 } })).toBe(
+        false,
+      )
+      expect(shallowEqual([1, 2], [1, 2])).toBe(true)
+      expect(shallowEqual([1, 2], { 0: 1, 1: 2 })).toBe(false)
+      expect(shallowEqual({ x: 1 }, { x: 1, y: 2 })).toBe(false)
+    })
+  })
+
+  describe('deepEqual', () => {
+    it('should compare nested structures', () => {
+      expect(
+        deepEqual({ a: [1, { b: 2 }], c: 'x' }, { a: [1, { b: 2 }], c: 'x' }),
+      ).toBe(true)
+      expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false)
+      expect(deepEqual({ a: undefined }, { b: undefined })).toBe(false)
+    })
+
+    it('should compare dates by time', () => {
+      expect(deepEqual(new Date(1), new Date(1))).toBe(true)
+      expect(deepEqual(new Date(1), new Date(2))).toBe(false)
+      expect(deepEqual(new Date(1), {})).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * Compare two values by reference, then by own enumerable keys (one level)
+ * @param a - First value
+ * @param b - Second value
+ * @returns Whether both values are shallowly equal
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true
+  if (!isObject(a) || !isObject(b)) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  if (keysA.length !== keysB.length) return false
+
+  return keysA.every(
+    key =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      Object.is((a as any)[key], (b as any)[key]),
+  )
+}
+
+/**
+ * Compare two plain values (primitives, arrays, plain objects, dates) recursively
+ * @param a - First value
+ * @param b - Second value
+ * @returns Whether both values are structurally equal
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true
+  if (!isObject(a) || !isObject(b)) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+  }
+
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  if (keysA.length !== keysB.length) return false
+
+  return keysA.every(
+    key =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      deepEqual((a as any)[key], (b as any)[key]),
+  )
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null
+}
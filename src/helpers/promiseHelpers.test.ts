@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { sleep } from './promiseHelpers'
+import { sleep, withTimeout } from './promiseHelpers'
 
 describe('promiseHelpers', () => {
   describe('sleep', () => {
@@ -27,4 +27,28 @@ describe('promiseHelpers', () => {
       expect(elapsed).toBeLessThan(10)
     })
   })
+
+  describe('withTimeout', () => {
+    it('should resolve with the promise value when it settles in time', async () => {
+      await expect(
+        withTimeout(Promise.resolve(42), 10, () => new Error('timeout')),
+      ).resolves.toBe(42)
+    })
+
+    it('should reject with the promise error when it settles in time', async () => {
+      await expect(
+        withTimeout(
+          Promise.reject(new Error('boom')),
+          10,
+          () => new Error('timeout'),
+        ),
+      ).rejects.toThrow('boom')
+    })
+
+    it('should reject with the timeout error when the promise is too slow', async () => {
+      await expect(
+        withTimeout(sleep(50), 10, () => new Error('timeout')),
+      ).rejects.toThrow('timeout')
+    })
+  })
 })
@@ -4,25 +4,139 @@ export {
   makeStoreService,
   actionPattern,
   type ActionPattern,
+  type ActionMatcher,
+  type ActionPatternInput,
+  type InferPatternAction,
+  anyOf,
+  allOf,
+  not,
   makeActionStream,
+  type ActionStreamItem,
+  END,
+  isEnd,
+  actionChannel,
+  type ActionChannelBuffer,
+  ActionChannelOverflowError,
   makeStateStream,
+  type StateEquality,
+  type StateStreamOptions,
+  type StructuredSelector,
+  type StructuredSelectorResult,
+  makeStateChangeStream,
+  type StateChange,
+  onStateTransition,
+  type StateMatcher,
+  waitForState,
+  type WaitForStateOptions,
+  WaitForStateTimeoutError,
   take,
+  raceActions,
+  type RaceActionsSpec,
+  type RaceActionsResult,
+  allActions,
+  type AllActionsResult,
   takeEvery,
   takeLatest,
+  takeLeading,
+  takeQueue,
+  takeWith,
+  takeLatestBy,
+  takeLeadingBy,
+  takeQueueBy,
+  debounce,
+  throttle,
+  type ThrottleOptions,
+  bufferTime,
+  type BufferWindow,
+  type TakeWithOptions,
+  type HandlerErrorOptions,
   put,
+  putAndAwait,
+  type PutAndAwaitOptions,
+  PutAndAwaitTimeoutError,
+  PutAndAwaitRejectedError,
   select,
 } from './core'
 
 export {
   createEffectSagaRunner,
   type EffectSagaRunner,
+  type InjectSagaOptions,
+  type RunnerStatus,
+  type RunnerLifecycleEvent,
+  type RunUntilIdleOptions,
+  type CreateEffectSagaRunnerOptions,
   combineSagas,
 } from './utils/effectSagaEnhancerFactory'
 
+export { EndOfStream, completeOnEnd } from './utils/endOfStream'
+
+export {
+  createSagaAppRuntime,
+  type SagaAppRuntime,
+} from './utils/createSagaAppRuntime'
+
+export {
+  supervise,
+  type SuperviseOptions,
+  type SupervisionPolicy,
+  SagaErrorReporter,
+  type SagaErrorHandler,
+  type SagaErrorInfo,
+} from './utils/supervise'
+
+export {
+  makeInMemorySagaMonitor,
+  type InMemorySagaMonitor,
+  type InMemorySagaMonitorOptions,
+  type RenderTreeOptions,
+  SagaMonitorService,
+  type SagaMonitor,
+  type SagaMonitorEvent,
+} from './utils/sagaMonitor'
+
+export {
+  type ActionCause,
+  CurrentActionCause,
+  StampCausedBy,
+  getCausedBy,
+} from './utils/actionCause'
+
 export {
   subscribeStoreActionEnhancerFactory,
   type ActionListener,
+  type DispatchedState,
   type SubscribeStoreActionFn,
 } from './utils/subscribeStoreActionEnhancerFactory'
 
 export { streamDistinctUntilChanged } from './utils/streamDistinctUntilChanged'
+
+export {
+  makeTestStoreService,
+  type MakeTestStoreServiceOptions,
+  type TestStoreService,
+  ExpectPutError,
+} from './utils/makeTestStoreService'
+
+export {
+  expectSaga,
+  type ExpectSaga,
+  type ExpectSagaOptions,
+  type ExpectSagaRunOptions,
+  type ExpectSagaResult,
+  type ServiceCall,
+} from './utils/expectSaga'
+
+export {
+  defineAction,
+  type ActionDefinition,
+  makeDecodedActionStream,
+  type DecodedActionStreamOptions,
+  InvalidActionError,
+} from './utils/defineAction'
+
+export {
+  createSagaKit,
+  type SagaKit,
+  type TypedStoreService,
+} from './utils/createSagaKit'
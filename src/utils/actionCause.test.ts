@@ -0,0 +1,130 @@
+import { Effect, FiberRef } from 'effect'
+import { Action, createStore } from 'redux'
+import { describe, expect, it } from 'vitest'
+import {
+  actionPattern,
+  makeActionStream,
+  put,
+  take,
+  takeEvery,
+  takeLatest,
+} from '../core'
+import { sleep } from '../helpers/promiseHelpers'
+import {
+  ActionCause,
+  CurrentActionCause,
+  getCausedBy,
+  StampCausedBy,
+  withCausedBy,
+} from './actionCause'
+import {
+  combineSagas,
+  createEffectSagaRunner,
+} from './effectSagaEnhancerFactory'
+import { makeTestStoreService } from './makeTestStoreService'
+
+const reducer = (state: Action[] = [], action: Action): Action[] =>
+  action.type.startsWith('@@') ? state : [...state, action]
+
+describe('actionCause', () => {
+  it('should stamp the handled action onto put actions', async () => {
+    const saga = combineSagas(
+      takeEvery(makeActionStream(actionPattern('order/submit')), () =>
+        put({ type: 'payment/request' }),
+      ),
+      takeLatest(makeActionStream(actionPattern('payment/request')), () =>
+        put({ type: 'payment/requested' }),
+      ),
+    )
+
+    const runner = await createEffectSagaRunner(saga, { stampCausedBy: true })
+    const store = createStore(reducer, runner.enhancer)
+    await runner.start()
+    await sleep(10)
+
+    store.dispatch({ type: 'order/submit' })
+    await sleep(10)
+
+    // Version 1 is the state after `@@redux/INIT`
+    const [submit, request, requested] = store.getState()
+    expect(getCausedBy(submit!)).toBeUndefined()
+    expect(getCausedBy(request!)).toEqual({ type: 'order/submit', id: 2 })
+    expect(getCausedBy(requested!)).toEqual({ type: 'payment/request', id: 3 })
+
+    await runner.stop()
+  })
+
+  it('should expose the handled action without stamping by default', async () => {
+    const causes: (ActionCause | undefined)[] = []
+
+    const saga = takeEvery(
+      makeActionStream(actionPattern('order/submit')),
+      () =>
+        FiberRef.get(CurrentActionCause).pipe(
+          Effect.tap(cause => causes.push(cause)),
+          Effect.zipRight(put({ type: 'payment/request' })),
+        ),
+    )
+
+    const runner = await createEffectSagaRunner(saga)
+    const store = createStore(reducer, runner.enhancer)
+    await runner.start()
+    await sleep(10)
+
+    store.dispatch({ type: 'order/submit' })
+    await sleep(10)
+
+    expect(causes).toEqual([{ type: 'order/submit', id: 2 }])
+    expect(store.getState()).toEqual([
+      { type: 'order/submit' },
+      { type: 'payment/request' },
+    ])
+
+    await runner.stop()
+  })
+
+  it('should use the taken action as the cause of later puts', async () => {
+    const store = makeTestStoreService({
+      initialState: null,
+      reducer: state => state,
+    })
+
+    const saga = Effect.gen(function* () {
+      yield* put({ type: 'app/ready' })
+      yield* take(makeActionStream(actionPattern('user/login')))
+      yield* put({ type: 'session/start' })
+    })
+
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const fiber = yield* Effect.fork(saga)
+        yield* store.awaitListeners()
+        yield* store.emit({ type: 'user/login' })
+        yield* fiber.await
+      }).pipe(
+        Effect.provide(store.layer),
+        Effect.provideService(StampCausedBy, true),
+      ),
+    )
+
+    expect(store.puts).toEqual([
+      { type: 'app/ready' },
+      {
+        type: 'session/start',
+        meta: { causedBy: { type: 'user/login', id: 2 } },
+      },
+    ])
+  })
+
+  it('should keep the existing meta when stamping', () => {
+    expect(
+      withCausedBy(
+        { type: 'payment/request', meta: { correlationId: 'c1' } },
+        { type: 'order/submit', id: 3 },
+      ),
+    ).toEqual({
+      type: 'payment/request',
+      meta: { correlationId: 'c1', causedBy: { type: 'order/submit', id: 3 } },
+    })
+  })
+})
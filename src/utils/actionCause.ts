@@ -0,0 +1,55 @@
+import { Context, FiberRef } from 'effect'
+import { Action } from 'redux'
+
+/**
+ * The action a saga is reacting to. `id` is the state version its dispatch
+ * produced, see `ActionStreamItem.version`, which tells apart several
+ * dispatches of the same action type.
+ */
+export interface ActionCause {
+  readonly type: string
+  readonly id: number
+}
+
+/**
+ * The action being handled in the current fiber, set by helpers like
+ * `takeEvery` and `takeLatest` for the time of a handler, and by `take` for
+ * the rest of the saga
+ */
+export const CurrentActionCause = FiberRef.unsafeMake<ActionCause | undefined>(
+  undefined,
+)
+
+/**
+ * Whether `put` stamps `meta.causedBy` onto the actions it dispatches, the
+ * saga runner provides its `stampCausedBy` option. Disabled by default.
+ */
+export class StampCausedBy extends Context.Reference<StampCausedBy>()(
+  'StampCausedBy',
+  { defaultValue: (): boolean => false },
+) {}
+
+/** Reads the cause from an action stream item, if the value is one */
+export const causeOf = (value: unknown): ActionCause | undefined => {
+  if (typeof value !== 'object' || value == null) return undefined
+
+  const { action, version } = value as { action?: unknown; version?: unknown }
+  if (typeof version !== 'number') return undefined
+  if (typeof action !== 'object' || action == null || !('type' in action)) {
+    return undefined
+  }
+
+  return { type: String((action as Action).type), id: version }
+}
+
+export const withCausedBy = <A extends Action>(
+  action: A,
+  cause: ActionCause,
+): A => ({
+  ...action,
+  meta: { ...(action as { meta?: object }).meta, causedBy: cause },
+})
+
+/** Reads `meta.causedBy` stamped by `put` */
+export const getCausedBy = (action: Action): ActionCause | undefined =>
+  (action as { meta?: { causedBy?: ActionCause } }).meta?.causedBy
@@ -0,0 +1,187 @@
+import { Context, Effect, Layer, Logger } from 'effect'
+import { Action, createStore } from 'redux'
+import { describe, expect, it } from 'vitest'
+import {
+  actionPattern,
+  makeActionStream,
+  put,
+  select,
+  takeEvery,
+} from '../core'
+import { sleep } from '../helpers/promiseHelpers'
+import { createSagaAppRuntime } from './createSagaAppRuntime'
+
+class Database extends Context.Tag('Database')<
+  Database,
+  { readonly query: (id: string) => string }
+>() {}
+
+class RequestId extends Context.Tag('RequestId')<RequestId, string>() {}
+
+const makeDatabaseLayer = (events: string[]): Layer.Layer<Database> =>
+  Layer.scoped(
+    Database,
+    Effect.acquireRelease(
+      Effect.sync(() => {
+        events.push('connect')
+        return { query: (id: string) => `row ${id}` }
+      }),
+      () => Effect.sync(() => events.push('disconnect')),
+    ),
+  )
+
+type State = { rows: string[] }
+
+const reducer = (state: State = { rows: [] }, action: Action): State =>
+  action.type === 'row/loaded'
+    ? {
+        rows: [...state.rows, (action as { payload: string } & Action).payload],
+      }
+    : state
+
+const loadRows = takeEvery(
+  makeActionStream(actionPattern('row/load')),
+  ({ action }) =>
+    Effect.gen(function* () {
+      const database = yield* Database
+      const { id } = action as { id: string } & Action
+      yield* put({ type: 'row/loaded', payload: database.query(id) })
+    }),
+)
+
+describe('createSagaAppRuntime', () => {
+  it('should share application services between isolated runners', async () => {
+    const events: string[] = []
+    const app = await createSagaAppRuntime([makeDatabaseLayer(events)])
+
+    const runner1 = await app.createRunner(loadRows)
+    const store1 = createStore(reducer, runner1.enhancer)
+    const runner2 = await app.createRunner(loadRows)
+    const store2 = createStore(reducer, runner2.enhancer)
+
+    await runner1.start()
+    await runner2.start()
+    await sleep(10)
+
+    store1.dispatch({ type: 'row/load', id: '1' } as Action)
+    store2.dispatch({ type: 'row/load', id: '2' } as Action)
+    await sleep(10)
+
+    expect(store1.getState().rows).toEqual(['row 1'])
+    expect(store2.getState().rows).toEqual(['row 2'])
+
+    await runner1.stop()
+    store2.dispatch({ type: 'row/load', id: '3' } as Action)
+    await sleep(10)
+
+    expect(store2.getState().rows).toEqual(['row 2', 'row 3'])
+    expect(events).toEqual(['connect'])
+
+    await runner2.stop()
+    await app.dispose()
+    expect(events).toEqual(['connect', 'disconnect'])
+  })
+
+  it('should build request layers per runner on top of application services', async () => {
+    const app = await createSagaAppRuntime([makeDatabaseLayer([])])
+
+    const saga = Effect.gen(function* () {
+      const requestId = yield* RequestId
+      const database = yield* Database
+      yield* put({ type: 'row/loaded', payload: database.query(requestId) })
+    })
+
+    const runner = await app.createRunner(saga, {
+      extraLayers: [Layer.succeed(RequestId, 'request-1')],
+    })
+    const store = createStore(reducer, runner.enhancer)
+
+    await runner.start()
+    await runner.runUntilIdle()
+    expect(store.getState().rows).toEqual(['row request-1'])
+
+    await runner.stop()
+    await app.dispose()
+  })
+
+  it('should not share request layers between runners', async () => {
+    const app = await createSagaAppRuntime([makeDatabaseLayer([])])
+
+    let built = 0
+    const RequestIdLive = Layer.effect(
+      RequestId,
+      Effect.sync(() => `request-${++built}`),
+    )
+    const saga = Effect.gen(function* () {
+      yield* put({ type: 'row/loaded', payload: yield* RequestId })
+    })
+
+    const runner1 = await app.createRunner(saga, {
+      extraLayers: [RequestIdLive],
+    })
+    const store1 = createStore(reducer, runner1.enhancer)
+    const runner2 = await app.createRunner(saga, {
+      extraLayers: [RequestIdLive],
+    })
+    const store2 = createStore(reducer, runner2.enhancer)
+
+    await runner1.start()
+    await runner2.start()
+    await runner1.runUntilIdle()
+    await runner2.runUntilIdle()
+
+    expect(store1.getState().rows).toEqual(['request-1'])
+    expect(store2.getState().rows).toEqual(['request-2'])
+
+    await app.dispose()
+  })
+
+  it('should apply application layers setting fiber refs, e.g. loggers', async () => {
+    const logs: unknown[] = []
+    const app = await createSagaAppRuntime([
+      Logger.replace(
+        Logger.defaultLogger,
+        Logger.make(({ message }) => logs.push(message)),
+      ),
+    ])
+
+    const runner = await app.createRunner(Effect.log('request handled'))
+    createStore(reducer, runner.enhancer)
+
+    await runner.start()
+    await runner.runUntilIdle()
+    expect(logs).toEqual([['request handled']])
+
+    await runner.stop()
+    await app.dispose()
+  })
+
+  it('should stop the runners still running on dispose', async () => {
+    const events: string[] = []
+    const app = await createSagaAppRuntime([makeDatabaseLayer(events)])
+
+    const runner = await app.createRunner(
+      Effect.gen(function* () {
+        yield* select((state: State) => state.rows)
+        yield* Effect.never
+      }).pipe(
+        Effect.onInterrupt(() => Effect.sync(() => events.push('interrupted'))),
+      ),
+    )
+    createStore(reducer, runner.enhancer)
+    await runner.start()
+
+    await app.dispose()
+
+    expect(runner.status).toBe('stopped')
+    expect(events).toEqual(['connect', 'interrupted', 'disconnect'])
+  })
+
+  it('should reject when an application layer fails to build', async () => {
+    await expect(
+      createSagaAppRuntime([
+        Layer.fail('no database') as Layer.Layer<Database>,
+      ]),
+    ).rejects.toThrow('no database')
+  })
+})
@@ -0,0 +1,92 @@
+import { Effect, Layer, ManagedRuntime } from 'effect'
+import { StoreService } from '../core'
+import {
+  createEffectSagaRunner,
+  CreateEffectSagaRunnerOptions,
+  EffectSagaRunner,
+  SharedAppLayer,
+} from './effectSagaEnhancerFactory'
+
+export interface SagaAppRuntime<R> {
+  /**
+   * Creates a runner for one store, e.g. one per server request. Its sagas
+   * use the application services, which are not rebuilt, plus its own
+   * `StoreService` and `extraLayers`, which no other runner sees.
+   */
+  createRunner: <A, E, Layers extends Layer.Layer<never, any, any>[] = never[]>(
+    saga: Effect.Effect<
+      A,
+      E,
+      StoreService | R | Layer.Layer.Success<Layers[number]>
+    >,
+    options?: Omit<CreateEffectSagaRunnerOptions<Layers>, 'app'>,
+  ) => Promise<EffectSagaRunner<A, E, R | Layer.Layer.Success<Layers[number]>>>
+  /** Stops the runners still running, then releases the application services */
+  dispose: () => Promise<void>
+}
+
+/**
+ * Builds process-wide services once, to share them between many short-lived
+ * saga runners
+ *
+ * @example
+ * const app = await createSagaAppRuntime([DatabaseLive, HttpClientLive])
+ *
+ * server.get('*', async (req, res) => {
+ *   const runner = await app.createRunner(rootSaga)
+ *   const store = createStore(rootReducer, runner.enhancer)
+ *   // ...
+ * })
+ */
+export async function createSagaAppRuntime<
+  Layers extends Layer.Layer<never, any, never>[],
+>(
+  layers: Layers,
+): Promise<SagaAppRuntime<Layer.Layer.Success<Layers[number]>>> {
+  // Runners build `app.layer` in the same memo map, so they reuse its
+  // services and fiber refs instead of building it again
+  const app: SharedAppLayer = {
+    layer: Layer.mergeAll(
+      Layer.empty,
+      ...(layers as Layer.Layer<never, any>[]),
+    ),
+    memoMap: Effect.runSync(Layer.makeMemoMap),
+  }
+  const runtime = ManagedRuntime.make(app.layer, app.memoMap)
+
+  try {
+    await runtime.runtime()
+  } catch (error) {
+    await runtime.dispose()
+    throw error
+  }
+
+  // Runners between `start` and `stop`, stopped by `dispose`
+  const activeRunners = new Set<EffectSagaRunner<any, any, any>>()
+
+  const createRunner: SagaAppRuntime<any>['createRunner'] = async (
+    saga,
+    options = {},
+  ) => {
+    const runner = await createEffectSagaRunner(
+      saga as Effect.Effect<any, any, StoreService>,
+      { ...options, app },
+    )
+
+    runner.subscribe(({ status }) => {
+      if (status === 'starting') activeRunners.add(runner)
+      if (status === 'stopped' || status === 'failed') {
+        activeRunners.delete(runner)
+      }
+    })
+
+    return runner
+  }
+
+  const dispose = async (): Promise<void> => {
+    await Promise.allSettled([...activeRunners].map(runner => runner.stop()))
+    await runtime.dispose()
+  }
+
+  return { createRunner, dispose }
+}
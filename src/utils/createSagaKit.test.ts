@@ -0,0 +1,132 @@
+import { Effect, Fiber, Stream } from 'effect'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import { ActionStreamItem, StoreService, actionPattern } from '../core'
+import { createSagaKit } from './createSagaKit'
+import { makeTestStoreService } from './makeTestStoreService'
+
+describe('createSagaKit', () => {
+  type RootState = { user: { name: string }; count: number }
+  type AppAction =
+    | { type: 'user/rename'; payload: string }
+    | { type: 'count/increment' }
+
+  const kit = createSagaKit<RootState, AppAction>()
+
+  const reducer = (
+    state: RootState = { user: { name: 'John' }, count: 0 },
+    action: AppAction,
+  ): RootState => {
+    switch (action.type) {
+      case 'user/rename':
+        return { ...state, user: { name: action.payload } }
+      case 'count/increment':
+        return { ...state, count: state.count + 1 }
+      default:
+        return state
+    }
+  }
+
+  it('should select and put with the bound types', async () => {
+    const testStore = makeTestStoreService({
+      initialState: { user: { name: 'John' }, count: 0 },
+      reducer,
+    })
+
+    const saga = Effect.gen(function* () {
+      yield* kit.put({ type: 'user/rename', payload: 'Jane' })
+      return yield* kit.select(state => state.user.name)
+    })
+
+    const name = await Effect.runPromise(
+      saga.pipe(Effect.provide(testStore.layer)),
+    )
+    expect(name).toBe('Jane')
+  })
+
+  it('should provide a typed StoreService tag', async () => {
+    const testStore = makeTestStoreService({
+      initialState: { user: { name: 'John' }, count: 1 },
+    })
+
+    const count = await Effect.runPromise(
+      Effect.gen(function* () {
+        const store = yield* kit.StoreService
+        expectTypeOf(store.getState()).toEqualTypeOf<RootState>()
+        return store.getState().count
+      }).pipe(Effect.provide(testStore.layer)),
+    )
+    expect(count).toBe(1)
+  })
+
+  it('should stream typed actions and state', async () => {
+    const testStore = makeTestStoreService({
+      initialState: { user: { name: 'John' }, count: 0 },
+      reducer,
+    })
+
+    const program = Effect.gen(function* () {
+      const fiber = yield* Effect.fork(
+        kit
+          .makeActionStream('user/rename')
+          .pipe(Stream.take(1), Stream.runHead),
+      )
+      yield* testStore.awaitListeners()
+      yield* kit.put({ type: 'count/increment' })
+      yield* kit.put({ type: 'user/rename', payload: 'Jane' })
+      return yield* Fiber.join(fiber)
+    })
+
+    const item = await Effect.runPromise(
+      program.pipe(Effect.provide(testStore.layer)),
+    )
+    expect(item._tag === 'Some' && item.value.action.payload).toBe('Jane')
+  })
+
+  it('should infer types from the bound state and actions', () => {
+    expectTypeOf(kit.select(state => state.count)).toEqualTypeOf<
+      Effect.Effect<number, never, StoreService>
+    >()
+
+    expectTypeOf(kit.makeStateStream(state => state.user)).toEqualTypeOf<
+      Stream.Stream<{ name: string }, never, StoreService>
+    >()
+
+    expectTypeOf(kit.makeActionStream('user/rename')).toEqualTypeOf<
+      Stream.Stream<
+        ActionStreamItem<{ type: 'user/rename'; payload: string }, RootState>,
+        never,
+        StoreService
+      >
+    >()
+
+    expectTypeOf(
+      kit.makeActionStream(
+        actionPattern<{ type: 'count/increment' }>('count/increment'),
+      ),
+    ).toEqualTypeOf<
+      Stream.Stream<
+        ActionStreamItem<{ type: 'count/increment' }, RootState>,
+        never,
+        StoreService
+      >
+    >()
+  })
+
+  it('should reject wrong actions and selectors at compile time', () => {
+    // Only checks types, nothing is run
+    const check = (): void => {
+      // @ts-expect-error unknown action type
+      kit.put({ type: 'user/unknown' })
+      // @ts-expect-error wrong payload type
+      kit.put({ type: 'user/rename', payload: 1 })
+      // @ts-expect-error selector against the wrong state shape
+      kit.select((state: { other: string }) => state.other)
+      // @ts-expect-error unknown property
+      kit.makeStateStream(state => state.missing)
+      // @ts-expect-error unknown action type
+      kit.makeActionStream('user/unknown')
+    }
+
+    expect(check).toBeTypeOf('function')
+  })
+})
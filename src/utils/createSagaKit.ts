@@ -0,0 +1,76 @@
+import { Context, Effect, Stream } from 'effect'
+import { Action } from 'redux'
+import {
+  ActionMatcher,
+  ActionPattern,
+  ActionPatternInput,
+  ActionStreamItem,
+  StateStreamOptions,
+  StoreService,
+  makeActionStream,
+  makeStateStream,
+  put,
+  select,
+} from '../core'
+
+export interface TypedStoreService<S, A extends Action> {
+  readonly dispatch: (action: A) => void
+  readonly getState: () => S
+  readonly getStateVersion: () => number
+  readonly subscribeAction: (
+    listener: (
+      action: A,
+      stateSnapshot: S,
+      dispatched: { readonly version: number; readonly state: S },
+    ) => void,
+  ) => () => void
+  readonly isEnded: () => boolean
+}
+
+export interface SagaKit<S, A extends Action> {
+  /** The `StoreService` tag, typed with the app's state and actions */
+  readonly StoreService: Context.Tag<StoreService, TypedStoreService<S, A>>
+  readonly select: <T>(
+    selector: (state: S) => T,
+  ) => Effect.Effect<T, never, StoreService>
+  readonly put: (action: A) => Effect.Effect<void, never, StoreService>
+  readonly makeStateStream: <T>(
+    selector: (state: S) => T,
+    options?: StateStreamOptions<T>,
+  ) => Stream.Stream<T, never, StoreService>
+  readonly makeActionStream: {
+    <K extends A['type']>(
+      type: K | K[],
+    ): Stream.Stream<
+      ActionStreamItem<Extract<A, { type: K }>, S>,
+      never,
+      StoreService
+    >
+    <T extends A>(
+      pattern: ActionPattern<T> | ActionMatcher<T>,
+    ): Stream.Stream<ActionStreamItem<T, S>, never, StoreService>
+  }
+}
+
+/**
+ * Binds the saga helpers to the app's state and action types once, so that
+ * selecting from the wrong state shape or putting an unknown action is a
+ * compile error
+ *
+ * @example
+ * export const { select, put, makeActionStream } =
+ *   createSagaKit<RootState, AppAction>()
+ */
+export function createSagaKit<S, A extends Action>(): SagaKit<S, A> {
+  return {
+    StoreService: StoreService as unknown as Context.Tag<
+      StoreService,
+      TypedStoreService<S, A>
+    >,
+    select: selector => select(selector),
+    put: action => put(action),
+    makeStateStream: (selector, options) => makeStateStream(selector, options),
+    makeActionStream: ((pattern: ActionPatternInput) =>
+      makeActionStream(pattern)) as SagaKit<S, A>['makeActionStream'],
+  }
+}
@@ -0,0 +1,114 @@
+import { Effect, Fiber, Schema, Stream } from 'effect'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import { ActionPattern, actionPattern, put, take } from '../core'
+import {
+  InvalidActionError,
+  defineAction,
+  makeDecodedActionStream,
+} from './defineAction'
+import { makeTestStoreService } from './makeTestStoreService'
+
+describe('defineAction', () => {
+  const login = defineAction(
+    'user/login',
+    Schema.Struct({
+      username: Schema.String,
+      at: Schema.DateFromString,
+    }),
+  )
+
+  it('should create actions with an encoded payload', () => {
+    const action = login({ username: 'john', at: new Date(0) })
+
+    expect(login.type).toBe('user/login')
+    expect(action).toEqual({
+      type: 'user/login',
+      payload: { username: 'john', at: new Date(0).toISOString() },
+    })
+  })
+
+  it('should match actions by type', () => {
+    expect(login.pattern({ type: 'user/login', payload: {} })).toBe(true)
+    expect(login.pattern({ type: 'user/logout' })).toBe(false)
+    expect(login.pattern(null)).toBe(false)
+  })
+
+  it('should work as an action matcher', () => {
+    const pattern = actionPattern(login)
+
+    // The payload is not validated, so it is not narrowed either
+    expectTypeOf(pattern).toEqualTypeOf<
+      ActionPattern<{ type: 'user/login'; payload: unknown }>
+    >()
+    expect(pattern({ type: 'user/login', payload: {} })).toBe(true)
+    expect(pattern({ type: 'user/logout' })).toBe(false)
+  })
+
+  describe('makeDecodedActionStream', () => {
+    it('should decode payloads', async () => {
+      const testStore = makeTestStoreService({ initialState: {} })
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(take(makeDecodedActionStream(login)))
+        yield* testStore.awaitListeners()
+        yield* put(login({ username: 'john', at: new Date(0) }))
+        return yield* Fiber.join(fiber)
+      })
+
+      const item = await Effect.runPromise(
+        program.pipe(Effect.provide(testStore.layer)),
+      )
+
+      expectTypeOf(item.action.payload.at).toEqualTypeOf<Date>()
+      expect(item.action.payload.at).toEqual(new Date(0))
+    })
+
+    it('should fail with InvalidActionError on malformed payloads', async () => {
+      const testStore = makeTestStoreService({ initialState: {} })
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(
+          take(makeDecodedActionStream(login)).pipe(Effect.flip),
+        )
+        yield* testStore.awaitListeners()
+        yield* testStore.emit({ type: 'user/login', payload: { username: 1 } })
+        return yield* Fiber.join(fiber)
+      })
+
+      const error = await Effect.runPromise(
+        program.pipe(Effect.provide(testStore.layer)),
+      )
+
+      expect(error).toBeInstanceOf(InvalidActionError)
+      expect(error).toMatchObject({
+        action: { type: 'user/login', payload: { username: 1 } },
+      })
+    })
+
+    it('should skip malformed payloads with onInvalidAction', async () => {
+      const testStore = makeTestStoreService({ initialState: {} })
+      const invalid: InvalidActionError[] = []
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(
+          makeDecodedActionStream(login, {
+            onInvalidAction: error => Effect.sync(() => invalid.push(error)),
+          }).pipe(Stream.take(1), Stream.runCollect),
+        )
+        yield* testStore.awaitListeners()
+        yield* testStore.emit({ type: 'user/login', payload: { username: 1 } })
+        yield* testStore.emit(login({ username: 'john', at: new Date(0) }))
+        return yield* Fiber.join(fiber)
+      })
+
+      const items = await Effect.runPromise(
+        program.pipe(Effect.provide(testStore.layer)),
+      )
+
+      expect(invalid).toHaveLength(1)
+      expect([...items].map(item => item.action.payload.username)).toEqual([
+        'john',
+      ])
+    })
+  })
+})
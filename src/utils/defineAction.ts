@@ -0,0 +1,130 @@
+import { Data, Effect, Option, ParseResult, Schema, Stream } from 'effect'
+import { identity } from 'effect/Function'
+import { UnknownAction } from 'redux'
+import {
+  ActionPattern,
+  ActionStreamItem,
+  StoreService,
+  makeActionStream,
+} from '../core'
+
+export class InvalidActionError extends Data.TaggedError('InvalidActionError')<{
+  readonly action: UnknownAction
+  readonly error: ParseResult.ParseError
+}> {}
+
+export interface ActionDefinition<Type extends string, A, I> {
+  /** Creates an action, encoding the payload with the schema */
+  (payload: A): { type: Type; payload: I }
+  readonly type: Type
+  readonly schema: Schema.Schema<A, I>
+  /**
+   * Matches actions by type. The payload is not validated, so it is
+   * `unknown`, see `makeDecodedActionStream` to decode it.
+   */
+  readonly pattern: ActionPattern<{ type: Type; payload: unknown }>
+  /** Same as `pattern`, so that definitions work as action matchers */
+  readonly match: ActionPattern<{ type: Type; payload: unknown }>
+}
+
+/**
+ * Defines an action type along with the schema of its payload
+ *
+ * @example
+ * const login = defineAction(
+ *   'user/login',
+ *   Schema.Struct({ username: Schema.String }),
+ * )
+ *
+ * yield* put(login({ username: 'john' }))
+ */
+export function defineAction<Type extends string, A, I>(
+  type: Type,
+  schema: Schema.Schema<A, I, never>,
+): ActionDefinition<Type, A, I> {
+  const encode = Schema.encodeSync(schema)
+
+  const creator = (payload: A): { type: Type; payload: I } => ({
+    type,
+    payload: encode(payload),
+  })
+
+  const pattern = (
+    action: unknown,
+  ): action is { type: Type; payload: unknown } =>
+    typeof action === 'object' &&
+    action !== null &&
+    (action as { type?: unknown }).type === type
+
+  return Object.assign(creator, { type, schema, pattern, match: pattern })
+}
+
+export interface DecodedActionStreamOptions<R> {
+  /**
+   * Called with actions whose payload fails to decode, which are then
+   * skipped instead of failing the stream with `InvalidActionError`
+   */
+  onInvalidAction: (error: InvalidActionError) => Effect.Effect<void, never, R>
+}
+
+/**
+ * Like `makeActionStream`, but decodes the payload of matching actions with
+ * the definition's schema
+ */
+export function makeDecodedActionStream<Type extends string, A, I>(
+  definition: ActionDefinition<Type, A, I>,
+): Stream.Stream<
+  ActionStreamItem<{ type: Type; payload: A }>,
+  InvalidActionError,
+  StoreService
+>
+export function makeDecodedActionStream<Type extends string, A, I, R>(
+  definition: ActionDefinition<Type, A, I>,
+  options: DecodedActionStreamOptions<R>,
+): Stream.Stream<
+  ActionStreamItem<{ type: Type; payload: A }>,
+  never,
+  StoreService | R
+>
+export function makeDecodedActionStream<Type extends string, A, I, R>(
+  definition: ActionDefinition<Type, A, I>,
+  options?: DecodedActionStreamOptions<R>,
+): Stream.Stream<
+  ActionStreamItem<{ type: Type; payload: A }>,
+  InvalidActionError,
+  StoreService | R
+> {
+  const decode = Schema.decodeUnknown(definition.schema)
+
+  const decodeItem = (
+    item: ActionStreamItem<{ type: Type; payload: unknown }>,
+  ): Effect.Effect<
+    ActionStreamItem<{ type: Type; payload: A }>,
+    InvalidActionError
+  > =>
+    decode(item.action.payload).pipe(
+      Effect.map(payload => ({
+        ...item,
+        action: { ...item.action, payload },
+      })),
+      Effect.mapError(
+        error => new InvalidActionError({ action: item.action, error }),
+      ),
+    )
+
+  const stream = makeActionStream(definition.pattern)
+
+  if (!options) return stream.pipe(Stream.mapEffect(decodeItem))
+
+  return stream.pipe(
+    Stream.mapEffect(item =>
+      decodeItem(item).pipe(
+        Effect.asSome,
+        Effect.catchAll(error =>
+          options.onInvalidAction(error).pipe(Effect.as(Option.none())),
+        ),
+      ),
+    ),
+    Stream.filterMap(identity),
+  )
+}
@@ -1,13 +1,32 @@
 import { Action, combineReducers, createStore } from 'redux'
-import { Context, Effect, Exit, Fiber, Layer, Runtime } from 'effect'
+import {
+  Context,
+  Effect,
+  Exit,
+  Fiber,
+  Layer,
+  Option,
+  Schedule,
+  Tracer,
+} from 'effect'
 import { describe, expect, it, vi } from 'vitest'
-import { actionPattern, makeActionStream, put, select, take } from '../core'
+import {
+  actionPattern,
+  makeActionStream,
+  put,
+  select,
+  StoreService,
+  take,
+  takeEvery,
+} from '../core'
 import { sleep } from '../helpers/promiseHelpers'
 import {
   combineSagas,
   createEffectSagaRunner,
   makeSagaRuntime,
+  RunnerLifecycleEvent,
 } from './effectSagaEnhancerFactory'
+import { EndOfStream } from './endOfStream'
 import { subscribeStoreActionEnhancerFactory } from './subscribeStoreActionEnhancerFactory'
 
 describe('createEffectSagaRunner', () => {
@@ -78,6 +97,63 @@ describe('createEffectSagaRunner', () => {
     await runner.stop()
   })
 
+  it('should keep scoped extra layers alive until stop', async () => {
+    const events: string[] = []
+
+    class Connection extends Context.Tag('Connection')<
+      Connection,
+      { isOpen: () => boolean }
+    >() {}
+
+    let open = false
+    const connectionLayer = Layer.scoped(
+      Connection,
+      Effect.acquireRelease(
+        Effect.sync(() => {
+          open = true
+          events.push('open')
+          return { isOpen: () => open }
+        }),
+        () =>
+          Effect.sleep('10 millis').pipe(
+            Effect.andThen(() => {
+              open = false
+              events.push('close')
+            }),
+          ),
+      ),
+    )
+
+    const saga = Effect.gen(function* () {
+      const connection = yield* Connection
+      yield* Effect.sleep('20 millis')
+      events.push(`saga sees open: ${connection.isOpen()}`)
+    })
+
+    const runner = await createEffectSagaRunner(saga, {
+      extraLayers: [connectionLayer],
+    })
+    createStore((state = {}) => state, runner.enhancer)
+
+    await runner.start()
+    await sleep(50)
+    expect(events).toEqual(['open', 'saga sees open: true'])
+
+    await runner.stop()
+    expect(events).toEqual(['open', 'saga sees open: true', 'close'])
+  })
+
+  it('should reject start when an extra layer fails to build', async () => {
+    class Broken extends Context.Tag('Broken')<Broken, object>() {}
+
+    const runner = await createEffectSagaRunner(Effect.void, {
+      extraLayers: [Layer.fail('cannot build') as Layer.Layer<Broken>],
+    })
+    createStore((state = {}) => state, runner.enhancer)
+
+    await expect(runner.start()).rejects.toThrow('cannot build')
+  })
+
   it('should integrate with Redux store', async () => {
     const testSlice = {
       name: 'test',
@@ -175,6 +251,570 @@ describe('createEffectSagaRunner', () => {
       await runner.stop()
     })
   })
+
+  describe('injectSaga', () => {
+    const counterReducer = (
+      state = { count: 0 },
+      action: Action,
+    ): { count: number } =>
+      action.type === 'increment' ? { count: state.count + 1 } : state
+
+    const incrementOn = (
+      type: string,
+    ): Effect.Effect<never, EndOfStream, StoreService> =>
+      Effect.gen(function* () {
+        const stream = makeActionStream(actionPattern(type))
+        while (true) {
+          yield* take(stream)
+          yield* put({ type: 'increment' })
+        }
+      })
+
+    it('should run injected sagas until they are ejected', async () => {
+      const runner = await createEffectSagaRunner(Effect.never)
+      const store = createStore(counterReducer, runner.enhancer)
+
+      await runner.start()
+      runner.injectSaga('feature', incrementOn('feature/ping'))
+      expect(runner.getInjectedSagaKeys()).toEqual(['feature'])
+
+      await sleep(10)
+      store.dispatch({ type: 'feature/ping' })
+      await sleep(10)
+      expect(store.getState().count).toBe(1)
+
+      await runner.ejectSaga('feature')
+      expect(runner.getInjectedSagaKeys()).toEqual([])
+
+      store.dispatch({ type: 'feature/ping' })
+      await sleep(10)
+      expect(store.getState().count).toBe(1)
+
+      await runner.stop()
+    })
+
+    it('should ignore injecting an already injected key', async () => {
+      const runner = await createEffectSagaRunner(Effect.never)
+      const store = createStore(counterReducer, runner.enhancer)
+
+      await runner.start()
+      runner.injectSaga('feature', incrementOn('feature/ping'))
+      runner.injectSaga('feature', incrementOn('feature/ping'))
+      await runner.ejectSaga('unknown')
+
+      await sleep(10)
+      store.dispatch({ type: 'feature/ping' })
+      await sleep(10)
+      expect(store.getState().count).toBe(1)
+
+      await runner.stop()
+    })
+
+    it('should run sagas injected before start, and again after a restart', async () => {
+      const runner = await createEffectSagaRunner(Effect.never)
+      const store = createStore(counterReducer, runner.enhancer)
+
+      runner.injectSaga('feature', incrementOn('feature/ping'))
+
+      await runner.start()
+      await sleep(10)
+      store.dispatch({ type: 'feature/ping' })
+      await sleep(10)
+      expect(store.getState().count).toBe(1)
+
+      await runner.stop()
+      store.dispatch({ type: 'feature/ping' })
+      await sleep(10)
+      expect(store.getState().count).toBe(1)
+      expect(runner.getInjectedSagaKeys()).toEqual(['feature'])
+
+      await runner.start()
+      await sleep(10)
+      store.dispatch({ type: 'feature/ping' })
+      await sleep(10)
+      expect(store.getState().count).toBe(2)
+
+      await runner.stop()
+    })
+
+    it('should restart injected sagas with a restart policy', async () => {
+      const onError = vi.fn()
+      const runner = await createEffectSagaRunner(Effect.never, { onError })
+      createStore(counterReducer, runner.enhancer)
+
+      let runs = 0
+      await runner.start()
+      runner.injectSaga(
+        'flaky',
+        Effect.suspend(() => {
+          runs += 1
+          return runs < 3 ? Effect.fail('boom') : Effect.never
+        }),
+        {
+          supervision: { strategy: 'restart', schedule: Schedule.forever },
+        },
+      )
+
+      await sleep(10)
+      expect(runs).toBe(3)
+      expect(onError.mock.calls.map(([, info]) => info)).toEqual([
+        { name: 'flaky', restarts: 0 },
+        { name: 'flaky', restarts: 1 },
+      ])
+      expect(runner.getInjectedSagaKeys()).toEqual(['flaky'])
+
+      await runner.stop()
+    })
+
+    it('should report failures and forget the failed saga', async () => {
+      const onError = vi.fn()
+      const runner = await createEffectSagaRunner(Effect.never, { onError })
+      createStore(counterReducer, runner.enhancer)
+
+      await runner.start()
+      runner.injectSaga('failing', Effect.fail('boom'))
+      runner.injectSaga('feature', incrementOn('feature/ping'))
+
+      await sleep(10)
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(runner.getInjectedSagaKeys()).toEqual(['feature'])
+
+      await runner.stop()
+    })
+  })
+
+  describe('lifecycle', () => {
+    it('should go through the lifecycle statuses', async () => {
+      const runner = await createEffectSagaRunner(Effect.never)
+      const events: RunnerLifecycleEvent[] = []
+      runner.subscribe(event => events.push(event))
+
+      expect(runner.status).toBe('idle')
+      createStore((state = {}) => state, runner.enhancer)
+
+      await runner.start()
+      expect(runner.status).toBe('running')
+
+      await runner.stop()
+      expect(runner.status).toBe('stopped')
+
+      expect(events).toEqual([
+        { status: 'starting', previous: 'idle' },
+        { status: 'running', previous: 'starting' },
+        { status: 'stopping', previous: 'running' },
+        { status: 'stopped', previous: 'stopping' },
+      ])
+    })
+
+    it('should fork the root saga once when started twice', async () => {
+      let runs = 0
+      const runner = await createEffectSagaRunner(
+        Effect.sync(() => (runs += 1)).pipe(Effect.andThen(Effect.never)),
+      )
+      createStore((state = {}) => state, runner.enhancer)
+
+      await Promise.all([runner.start(), runner.start()])
+      await runner.start()
+      await sleep(10)
+
+      expect(runs).toBe(1)
+
+      await Promise.all([runner.stop(), runner.stop()])
+      await runner.stop()
+      expect(runner.status).toBe('stopped')
+    })
+
+    it('should reject start before the enhancer is applied', async () => {
+      const runner = await createEffectSagaRunner(Effect.void)
+
+      await expect(runner.start()).rejects.toThrow(
+        'cannot start before the enhancer is applied',
+      )
+      expect(runner.status).toBe('idle')
+    })
+
+    it('should reject start while stopping', async () => {
+      const runner = await createEffectSagaRunner(
+        Effect.never.pipe(Effect.onInterrupt(() => Effect.sleep('20 millis'))),
+      )
+      createStore((state = {}) => state, runner.enhancer)
+
+      await runner.start()
+      const stopping = runner.stop()
+
+      expect(runner.status).toBe('stopping')
+      await expect(runner.start()).rejects.toThrow(
+        'cannot start while stopping',
+      )
+
+      await stopping
+    })
+
+    it('should reject switching sagas when not running', async () => {
+      const runner = await createEffectSagaRunner(Effect.void)
+      createStore((state = {}) => state, runner.enhancer)
+
+      await expect(runner.switchSaga(Effect.void)).rejects.toThrow(
+        'cannot switch saga while idle',
+      )
+    })
+
+    it('should fail when the layers fail to build, and allow retrying', async () => {
+      class Flaky extends Context.Tag('Flaky')<Flaky, object>() {}
+
+      let attempts = 0
+      const flakyLayer = Layer.effect(
+        Flaky,
+        Effect.suspend(() =>
+          (attempts += 1) === 1 ? Effect.fail('not ready') : Effect.succeed({}),
+        ),
+      )
+
+      const runner = await createEffectSagaRunner(Effect.never, {
+        extraLayers: [flakyLayer],
+      })
+      const events: RunnerLifecycleEvent[] = []
+      runner.subscribe(event => events.push(event))
+      createStore((state = {}) => state, runner.enhancer)
+
+      await expect(runner.start()).rejects.toThrow('not ready')
+      expect(runner.status).toBe('failed')
+      expect(events[1]).toMatchObject({
+        status: 'failed',
+        previous: 'starting',
+      })
+
+      await runner.start()
+      expect(runner.status).toBe('running')
+
+      await runner.stop()
+    })
+
+    it('should stop notifying unsubscribed listeners', async () => {
+      const runner = await createEffectSagaRunner(Effect.never)
+      const listener = vi.fn()
+      const unsubscribe = runner.subscribe(listener)
+      createStore((state = {}) => state, runner.enhancer)
+
+      unsubscribe()
+      await runner.start()
+      await runner.stop()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('runUntilIdle', () => {
+    it('should wait for handlers started before END to finish', async () => {
+      const saga = takeEvery(makeActionStream(actionPattern('data/load')), () =>
+        Effect.sleep('20 millis').pipe(
+          Effect.andThen(put({ type: 'data/loaded' })),
+        ),
+      )
+      const runner = await createEffectSagaRunner(saga)
+      const store = createStore(
+        (state = { loaded: false }, action: Action): { loaded: boolean } =>
+          action.type === 'data/loaded' ? { loaded: true } : state,
+        runner.enhancer,
+      )
+
+      await runner.start()
+      await sleep(10)
+      store.dispatch({ type: 'data/load' })
+
+      await runner.runUntilIdle()
+      expect(store.getState().loaded).toBe(true)
+
+      await runner.done
+      await runner.stop()
+    })
+
+    it('should end sagas waiting in take without interrupting running handlers', async () => {
+      const events: string[] = []
+
+      const saga = combineSagas(
+        takeEvery(makeActionStream(actionPattern('data/load')), () =>
+          Effect.sync(() => events.push('handler start')).pipe(
+            Effect.zipRight(Effect.sleep('20 millis')),
+            Effect.zipRight(put({ type: 'data/loaded' })),
+            Effect.onInterrupt(() =>
+              Effect.sync(() => events.push('handler interrupted')),
+            ),
+          ),
+        ),
+        Effect.gen(function* () {
+          const stream = makeActionStream(actionPattern('ping'))
+          while (true) yield* take(stream)
+        }),
+      )
+      const runner = await createEffectSagaRunner(saga)
+      const store = createStore(
+        (state = { loaded: false }, action: Action): { loaded: boolean } =>
+          action.type === 'data/loaded' ? { loaded: true } : state,
+        runner.enhancer,
+      )
+
+      await runner.start()
+      await sleep(10)
+      store.dispatch({ type: 'data/load' })
+
+      await runner.runUntilIdle()
+      expect(events).toEqual(['handler start'])
+      expect(store.getState().loaded).toBe(true)
+      expect(runner.status).toBe('running')
+
+      await runner.stop()
+    })
+
+    it('should end a take loop that subscribes again after END', async () => {
+      const saga = Effect.gen(function* () {
+        while (true) {
+          yield* take(makeActionStream(actionPattern('a')))
+          yield* Effect.sleep('20 millis')
+        }
+      })
+      const runner = await createEffectSagaRunner(saga)
+      const store = createStore((state = {}) => state, runner.enhancer)
+
+      await runner.start()
+      await sleep(10)
+      store.dispatch({ type: 'a' })
+
+      await runner.runUntilIdle({ timeout: '200 millis' })
+      await runner.stop()
+    })
+
+    it('should end a take started by a handler after END', async () => {
+      const events: string[] = []
+
+      const saga = takeEvery(makeActionStream(actionPattern('a')), () =>
+        Effect.sleep('20 millis').pipe(
+          Effect.zipRight(take(makeActionStream(actionPattern('b')))),
+          Effect.tapError(error => Effect.sync(() => events.push(error._tag))),
+        ),
+      )
+      const runner = await createEffectSagaRunner(saga)
+      const store = createStore((state = {}) => state, runner.enhancer)
+
+      await runner.start()
+      await sleep(10)
+      store.dispatch({ type: 'a' })
+
+      await runner.runUntilIdle({ timeout: '200 millis' })
+      expect(events).toEqual(['EndOfStream'])
+      await runner.stop()
+    })
+
+    it('should not end streams after the runner is started again', async () => {
+      const saga = take(makeActionStream(actionPattern('a')))
+      const runner = await createEffectSagaRunner(saga)
+      const store = createStore((state = {}) => state, runner.enhancer)
+
+      await runner.start()
+      await runner.runUntilIdle()
+      await runner.stop()
+
+      await runner.start()
+      let done = false
+      void runner.done.then(() => (done = true))
+      await sleep(10)
+      expect(done).toBe(false)
+
+      store.dispatch({ type: 'a' })
+      await runner.done
+      await runner.stop()
+    })
+
+    it('should reject when sagas are still running after the timeout', async () => {
+      const runner = await createEffectSagaRunner(Effect.never)
+      createStore((state = {}) => state, runner.enhancer)
+
+      await runner.start()
+      await expect(
+        runner.runUntilIdle({ timeout: '20 millis' }),
+      ).rejects.toThrow('sagas still running after 20ms')
+
+      await runner.stop()
+    })
+
+    it('should reject when the runner is not running', async () => {
+      const runner = await createEffectSagaRunner(Effect.void)
+      createStore((state = {}) => state, runner.enhancer)
+
+      await expect(runner.runUntilIdle()).rejects.toThrow(
+        'cannot run until idle while idle',
+      )
+    })
+  })
+
+  describe('done', () => {
+    const waitFor = (type: string): Effect.Effect<unknown, EndOfStream, any> =>
+      take(makeActionStream(actionPattern(type)))
+
+    const isSettled = async (promise: Promise<void>): Promise<boolean> => {
+      let settled = false
+      void promise.then(() => (settled = true))
+      await sleep(10)
+      return settled
+    }
+
+    it('should wait for the sagas of the next start when read before it', async () => {
+      const runner = await createEffectSagaRunner(waitFor('finish'))
+      const store = createStore((state = {}) => state, runner.enhancer)
+
+      const done = runner.done
+      expect(await isSettled(done)).toBe(false)
+
+      await runner.start()
+      expect(runner.done).toBe(done)
+      expect(await isSettled(done)).toBe(false)
+
+      store.dispatch({ type: 'finish' })
+      expect(await isSettled(done)).toBe(true)
+
+      await runner.stop()
+    })
+
+    it('should wait for a root saga switched after it was read', async () => {
+      const runner = await createEffectSagaRunner(waitFor('first'))
+      const store = createStore((state = {}) => state, runner.enhancer)
+      await runner.start()
+
+      const done = runner.done
+      await runner.switchSaga(waitFor('second'))
+      expect(runner.done).toBe(done)
+
+      store.dispatch({ type: 'first' })
+      expect(await isSettled(done)).toBe(false)
+
+      store.dispatch({ type: 'second' })
+      expect(await isSettled(done)).toBe(true)
+
+      await runner.stop()
+    })
+
+    it('should wait for injected sagas', async () => {
+      const runner = await createEffectSagaRunner(Effect.void)
+      const store = createStore((state = {}) => state, runner.enhancer)
+      runner.injectSaga('feature', waitFor('finish'))
+      await runner.start()
+
+      const done = runner.done
+      expect(await isSettled(done)).toBe(false)
+
+      store.dispatch({ type: 'finish' })
+      expect(await isSettled(done)).toBe(true)
+
+      await runner.stop()
+    })
+  })
+
+  describe('tracing', () => {
+    interface RecordedSpan {
+      readonly name: string
+      readonly parent: string | undefined
+      readonly attributes: Map<string, unknown>
+      readonly events: {
+        name: string
+        attributes: Record<string, unknown> | undefined
+      }[]
+    }
+
+    // Records spans the way an OpenTelemetry in-memory exporter would
+    const makeInMemoryTracer = (): {
+      tracer: Tracer.Tracer
+      spans: RecordedSpan[]
+    } => {
+      const spans: RecordedSpan[] = []
+      let nextId = 0
+
+      const tracer = Tracer.make({
+        span: (name, parent, context, links, startTime, kind) => {
+          const recorded: RecordedSpan = {
+            name,
+            parent: Option.getOrUndefined(
+              Option.map(parent, p => (p._tag === 'Span' ? p.name : p.spanId)),
+            ),
+            attributes: new Map(),
+            events: [],
+          }
+          spans.push(recorded)
+
+          let status: Tracer.SpanStatus = { _tag: 'Started', startTime }
+          return {
+            _tag: 'Span',
+            name,
+            spanId: `span-${++nextId}`,
+            traceId: 'trace',
+            parent,
+            context,
+            get status() {
+              return status
+            },
+            attributes: recorded.attributes,
+            links,
+            sampled: true,
+            kind,
+            end: (endTime, exit) => {
+              status = { _tag: 'Ended', startTime, endTime, exit }
+            },
+            attribute: (key, value) => recorded.attributes.set(key, value),
+            event: (eventName, _startTime, attributes) =>
+              recorded.events.push({ name: eventName, attributes }),
+            addLinks: () => {},
+          }
+        },
+        context: f => f(),
+      })
+
+      return { tracer, spans }
+    }
+
+    it('should run handlers in spans named after the action and record puts', async () => {
+      const { tracer, spans } = makeInMemoryTracer()
+
+      const runner = await createEffectSagaRunner(Effect.never, {
+        extraLayers: [Layer.setTracer(tracer)],
+      })
+      const store = createStore((state = {}) => state, runner.enhancer)
+      await runner.start()
+
+      runner.injectSaga(
+        'todos',
+        takeEvery(makeActionStream(actionPattern('todo/add')), () =>
+          put({ type: 'todo/added' }),
+        ),
+      )
+      await sleep(10)
+
+      store.dispatch({ type: 'todo/add' })
+      await sleep(10)
+
+      const handlerSpan = spans.find(span => span.name === 'todo/add')
+      expect(handlerSpan).toMatchObject({
+        parent: 'takeEvery',
+        events: [
+          {
+            name: 'put',
+            attributes: {
+              'action.type': 'todo/added',
+              'action.caused_by': 'todo/add',
+            },
+          },
+        ],
+      })
+      expect(Object.fromEntries(handlerSpan!.attributes)).toEqual({
+        'action.type': 'todo/add',
+        'action.version': store.getStateVersion() - 1,
+        'saga.name': 'todos',
+      })
+
+      const putSpan = spans.find(span => span.name === 'put')
+      expect(putSpan).toMatchObject({ parent: 'todo/add', events: [] })
+
+      await runner.stop()
+    })
+  })
 })
 
 describe('combineSagas', () => {
@@ -194,10 +834,11 @@ describe('combineSagas', () => {
     const runtime = await makeSagaRuntime({
       store: createStore((state = {}) => state, enhancer),
     })
-    const fiber = Runtime.runFork(runtime, combined)
+    const fiber = runtime.runFork(combined)
 
     await sleep(100)
-    await Runtime.runPromise(runtime, Fiber.interrupt(fiber))
+    await runtime.runPromise(Fiber.interrupt(fiber))
+    await runtime.dispose()
 
     expect(results).toContain('saga1')
     expect(results).toContain('saga2')
@@ -218,7 +859,8 @@ describe('combineSagas', () => {
       store: createStore((state = {}) => state, enhancer),
     })
 
-    await expect(Runtime.runPromise(runtime, combined)).rejects.toThrow('error')
+    await expect(runtime.runPromise(combined)).rejects.toThrow('error')
+    await runtime.dispose()
 
     expect(results).toContain('saga1')
     expect(results).toContain('saga3')
@@ -1,14 +1,44 @@
-import { Cause, Effect, Exit, Fiber, Layer, Runtime } from 'effect'
+import {
+  Cause,
+  Duration,
+  Effect,
+  Exit,
+  Fiber,
+  Layer,
+  ManagedRuntime,
+  Runtime,
+} from 'effect'
 import { Store as ReduxStore, StoreEnhancer } from 'redux'
-import { makeStoreService, StoreService } from '../core'
+import { END, isEnd, makeStoreService, Store, StoreService } from '../core'
 import { defer } from '../helpers/defer'
+import { withTimeout } from '../helpers/promiseHelpers'
+import { StampCausedBy } from './actionCause'
+import { completeOnEnd, EndOfStream } from './endOfStream'
+import {
+  CurrentSagaName,
+  CurrentSagaNode,
+  makeSagaNodeId,
+  SagaMonitor,
+  SagaMonitorService,
+} from './sagaMonitor'
 import {
   subscribeStoreActionEnhancerFactory,
   SubscribeStoreActionFn,
 } from './subscribeStoreActionEnhancerFactory'
+import {
+  defaultRunnerErrorHandler,
+  SagaErrorHandler,
+  SagaErrorReporter,
+  supervise,
+  SupervisionPolicy,
+} from './supervise'
 
 export interface StoreExt {
   subscribeAction: SubscribeStoreActionFn
+  getStateVersion: () => number
+  /** Whether `END` was dispatched since the last `resetEnded` */
+  isEnded: () => boolean
+  resetEnded: () => void
 }
 
 export const effectSagaEnhancerFactory =
@@ -19,7 +49,20 @@ export const effectSagaEnhancerFactory =
     const wrapper = subscribeStoreActionEnhancer(next)
 
     return (reducer, preloadedState) => {
-      const store = wrapper(reducer, preloadedState)
+      const inner = wrapper(reducer, preloadedState)
+
+      // Subscribed first, so that `ended` is set before sagas see `END`
+      let ended = false
+      inner.subscribeAction(action => {
+        if (isEnd(action)) ended = true
+      })
+
+      const store = Object.assign(inner, {
+        isEnded: () => ended,
+        resetEnded: () => {
+          ended = false
+        },
+      })
 
       setStore(store)
 
@@ -27,18 +70,122 @@ export const effectSagaEnhancerFactory =
     }
   }
 
+/**
+ * Lifecycle of a saga runner:
+ *
+ * `idle` → `starting` → `running` → `stopping` → `stopped`, where `starting`
+ * and `stopping` go to `failed` instead when they throw. A `stopped` or
+ * `failed` runner can be started again.
+ */
+export type RunnerStatus =
+  | 'idle'
+  | 'starting'
+  | 'running'
+  | 'stopping'
+  | 'stopped'
+  | 'failed'
+
+export interface RunnerLifecycleEvent {
+  readonly status: RunnerStatus
+  readonly previous: RunnerStatus
+  /** Why the runner `failed` */
+  readonly error?: unknown
+}
+
 export interface EffectSagaRunner<A, E = never, R = never> {
   enhancer: StoreEnhancer<StoreExt>
+  readonly status: RunnerStatus
+  /** Listens to status changes, returns a function removing the listener */
+  subscribe: (listener: (event: RunnerLifecycleEvent) => void) => () => void
+  /** Replaces the root saga, the runner must be `running` */
   switchSaga: (saga: Effect.Effect<A, E, StoreService | R>) => Promise<void>
+  /**
+   * Runs a saga alongside the root saga until it is ejected, e.g. for a
+   * lazy-loaded feature module. Does nothing if `key` is already injected.
+   *
+   * Sagas injected before `start` run once the runner starts, and injected
+   * sagas run again after a `stop` and `start`.
+   */
+  injectSaga: (
+    key: string,
+    saga: Effect.Effect<any, any, StoreService | R>,
+    options?: InjectSagaOptions,
+  ) => void
+  /** Interrupts and forgets the saga injected under `key`, if any */
+  ejectSaga: (key: string) => Promise<void>
+  /** Keys of the injected sagas that did not finish or fail yet */
+  getInjectedSagaKeys: () => string[]
+  /**
+   * Builds the layers and forks the sagas. Resolves right away when already
+   * running, and fails if the enhancer was not applied to a store yet, or
+   * while the runner is stopping.
+   */
   start: () => Promise<void>
+  /**
+   * Interrupts the sagas and releases the layers. Does nothing unless the
+   * runner is running, waiting for a pending `start` first.
+   */
   stop: () => Promise<void>
+  /**
+   * Resolves once the root saga and the injected sagas have all finished,
+   * including the handlers they run with `takeEvery` and other helpers. The
+   * same promise is returned until then, also when read before `start` or
+   * when the root saga is switched.
+   */
+  readonly done: Promise<void>
+  /**
+   * Dispatches `END` so that sagas waiting for actions finish, then waits
+   * for `done`. Useful on the server, before serializing the state.
+   */
+  runUntilIdle: (options?: RunUntilIdleOptions) => Promise<void>
+}
+
+export interface RunUntilIdleOptions {
+  /** Rejects when the sagas are still running after it, defaults to 5 seconds */
+  timeout?: Duration.DurationInput
+}
+
+export interface InjectSagaOptions {
+  /** Defaults to `escalate`: the failure is reported and the saga forgotten */
+  supervision?: SupervisionPolicy
+}
+
+/**
+ * Services shared by several runners. `layer` is built once in `memoMap`, so
+ * runners reuse its services and the fiber refs it sets, e.g. a logger or a
+ * tracer, see `createSagaAppRuntime`
+ */
+export interface SharedAppLayer {
+  readonly layer: Layer.Layer<never, any>
+  readonly memoMap: Layer.MemoMap
 }
 
-type CreateEffectSagaRunnerOptions<
-  Layers extends Layer.Layer<any, any, any>[] = never[],
+export type CreateEffectSagaRunnerOptions<
+  Layers extends Layer.Layer<never, any, any>[] = never[],
 > = {
   extraLayers?: Layers
-  onError?: (exit: Exit.Failure<any, any>) => void
+  /**
+   * Services shared with other runners and not released by `stop`, see
+   * `createSagaAppRuntime`
+   */
+  app?: SharedAppLayer
+  /**
+   * Called with failures of the root saga and injected sagas, and with every
+   * failure of sagas supervised with `isolate` or `restart`
+   */
+  onError?: SagaErrorHandler
+  /** Supervision of the root saga, defaults to `escalate` */
+  supervision?: SupervisionPolicy
+  /**
+   * Told when sagas and handlers start and stop and when actions are put,
+   * see `makeInMemorySagaMonitor`
+   */
+  monitor?: SagaMonitor
+  /**
+   * Stamps `meta.causedBy` onto actions put while handling an action,
+   * defaults to `false`
+   */
+  stampCausedBy?: boolean
 }
 
 export interface CreateEffectSagaRunnerFn {
@@ -47,7 +194,7 @@ export interface CreateEffectSagaRunnerFn {
     options?: CreateEffectSagaRunnerOptions,
   ): Promise<EffectSagaRunner<A, E>>
 
-  <A, E, Layers extends Layer.Layer<any, any, any>[] = never[]>(
+  <A, E, Layers extends Layer.Layer<never, any, any>[] = never[]>(
     saga: Effect.Effect<
       A,
       E,
@@ -61,7 +208,7 @@ export const createEffectSagaRunner: CreateEffectSagaRunnerFn =
 async function _createEffectSagaRunner<
   A,
   E,
-  Layers extends Layer.Layer<any, any, any>[] = never[],
+  Layers extends Layer.Layer<never, any, any>[] = never[],
 >(
   saga: Effect.Effect<A, E, StoreService | Layer.Layer.Success<Layers[number]>>,
   options: CreateEffectSagaRunnerOptions<Layers> = {},
@@ -73,8 +220,80 @@ async function _createEffectSagaRunner<
     fiber: Fiber.RuntimeFiber<any, any>
   } = null
 
+  // Runtime shared by the root saga and injected sagas, from start to stop
+  let sagaRuntime: null | {
+    managed: ManagedRuntime.ManagedRuntime<any, any>
+    runtime: Runtime.Runtime<any>
+  } = null
+
+  const injected = new Map<
+    string,
+    {
+      saga: Effect.Effect<any, any, any>
+      fiber: null | Fiber.RuntimeFiber<any, any>
+    }
+  >()
+
   const onError = options.onError ?? defaultRunnerErrorHandler
 
+  // Saga fibers alive, plus holds while sagas are forked or switched, so that
+  // `done` settles only once all of them have exited
+  let liveSagas = 0
+  let sagasDone = defer()
+
+  const retainSagas = (): void => {
+    if (liveSagas === 0 && !sagasDone.isPending) sagasDone = defer()
+    liveSagas += 1
+  }
+
+  const releaseSagas = (): void => {
+    liveSagas -= 1
+    if (liveSagas === 0) sagasDone.resolve()
+  }
+
+  let status: RunnerStatus = 'idle'
+  let pendingStart: null | Promise<void> = null
+  let pendingStop: null | Promise<void> = null
+  let lifecycleListeners: ((event: RunnerLifecycleEvent) => void)[] = []
+
+  const transition = (next: RunnerStatus, error?: unknown): void => {
+    const event: RunnerLifecycleEvent =
+      next === 'failed'
+        ? { status: next, previous: status, error }
+        : { status: next, previous: status }
+    status = next
+
+    lifecycleListeners.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('Error in runner lifecycle listener:', error)
+      }
+    })
+  }
+
+  const subscribe = (
+    listener: (event: RunnerLifecycleEvent) => void,
+  ): (() => void) => {
+    lifecycleListeners.push(listener)
+
+    return () => {
+      lifecycleListeners = lifecycleListeners.filter(l => l !== listener)
+    }
+  }
+
+  const settle = (
+    run: () => Promise<void>,
+    done: RunnerStatus,
+  ): Promise<void> =>
+    run().then(
+      () => transition(done),
+      error => {
+        transition('failed', error)
+        throw error
+      },
+    )
+
   const attachFiberObserver = (
     runtime: Runtime.Runtime<any>,
     fiber: Fiber.RuntimeFiber<any, any>,
@@ -90,11 +309,77 @@ async function _createEffectSagaRunner<
       }
 
       if (Exit.isFailure(exit) && !Cause.isInterruptedOnly(exit.cause)) {
-        onError(exit)
+        onError(exit, { restarts: 0 })
       }
     })
   }
 
+  const runSaga = (
+    runtime: Runtime.Runtime<any>,
+    name: string,
+    saga: Effect.Effect<any, any, any>,
+  ): Fiber.RuntimeFiber<any, any> => {
+    const { monitor } = options
+    const id = makeSagaNodeId('saga')
+    monitor?.onEvent({ _tag: 'SagaStarted', id, name })
+    retainSagas()
+
+    const fiber = Runtime.runFork(
+      runtime,
+      saga.pipe(
+        completeOnEnd,
+        Effect.locally(CurrentSagaNode, id),
+        Effect.locally(CurrentSagaName, name),
+        Effect.provideService(SagaMonitorService, monitor),
+        Effect.provideService(StampCausedBy, options.stampCausedBy ?? false),
+        Effect.provideService(SagaErrorReporter, onError),
+      ),
+    )
+    fiber.addObserver(exit => {
+      monitor?.onEvent({ _tag: 'SagaStopped', id, name, exit })
+      releaseSagas()
+    })
+
+    return fiber
+  }
+
+  const superviseRoot = (
+    saga: Effect.Effect<any, any, any>,
+  ): Effect.Effect<any, any, any> =>
+    supervise(saga, {
+      policy: options.supervision ?? { strategy: 'escalate' },
+    })
+
+  const forkInjectedSaga = (
+    runtime: Runtime.Runtime<any>,
+    key: string,
+  ): void => {
+    const entry = injected.get(key)
+    if (!entry) return
+
+    const fiber = runSaga(runtime, key, entry.saga)
+    entry.fiber = fiber
+
+    fiber.addObserver(exit => {
+      if (entry.fiber !== fiber) return
+      entry.fiber = null
+
+      // Interrupted by `stop` or `ejectSaga`, which handle the registration
+      if (Exit.isFailure(exit) && Cause.isInterruptedOnly(exit.cause)) return
+
+      injected.delete(key)
+      if (Exit.isFailure(exit)) onError(exit, { name: key, restarts: 0 })
+    })
+  }
+
+  const interruptInjectedSaga = async (
+    runtime: Runtime.Runtime<any>,
+    key: string,
+  ): Promise<void> => {
+    const fiber = injected.get(key)?.fiber
+    if (fiber) await Runtime.runPromise(runtime, Fiber.interrupt(fiber))
+  }
+
   const enhancer = effectSagaEnhancerFactory(store => {
     if (!storeDefer.isPending) {
       throw new Error('[createEffectSagaRunner] store already set')
@@ -104,76 +389,221 @@ async function _createEffectSagaRunner<
   })
 
   const start = async (): Promise<void> => {
-    const store = await storeDefer.promise
+    if (status === 'running') return
+    if (status === 'starting') return pendingStart!
+    if (status === 'stopping') {
+      throw new Error('[createEffectSagaRunner] cannot start while stopping')
+    }
+    if (storeDefer.isPending) {
+      throw new Error(
+        '[createEffectSagaRunner] cannot start before the enhancer is applied to a store',
+      )
+    }
 
-    const runtime = await makeSagaRuntime({
-      store,
-      extraLayers: options.extraLayers,
-    })
+    transition('starting')
+    pendingStart = settle(startSagas, 'running')
+    return pendingStart
+  }
+
+  const startSagas = async (): Promise<void> => {
+    retainSagas()
+    try {
+      const store = await storeDefer.promise
+      store.resetEnded()
+
+      const managed = await makeSagaRuntime({
+        store,
+        extraLayers: options.extraLayers,
+        app: options.app,
+      })
+      const runtime = await managed.runtime()
 
-    const fiber = Runtime.runFork(runtime, saga as any)
-    attachFiberObserver(runtime, fiber)
+      const fiber = runSaga(runtime, 'root', superviseRoot(saga))
+      attachFiberObserver(runtime, fiber)
+
+      sagaRuntime = { managed, runtime }
+      for (const key of injected.keys()) forkInjectedSaga(runtime, key)
+    } finally {
+      releaseSagas()
+    }
   }
 
   const stop = async (): Promise<void> => {
+    if (status === 'stopping') return pendingStop!
+    if (status === 'starting') {
+      await pendingStart!.catch(() => {})
+      return stop()
+    }
+    if (status !== 'running') return
+
+    transition('stopping')
+    pendingStop = settle(stopSagas, 'stopped')
+    return pendingStop
+  }
+
+  const stopSagas = async (): Promise<void> => {
     if (running) {
       await Runtime.runPromise(running.runtime, Fiber.interrupt(running.fiber))
       running = null
     }
+
+    if (sagaRuntime) {
+      const { managed, runtime } = sagaRuntime
+      sagaRuntime = null
+      await Promise.all(
+        [...injected.keys()].map(key => interruptInjectedSaga(runtime, key)),
+      )
+      // Runs the finalizers of scoped `extraLayers`
+      await managed.dispose()
+    }
   }
 
   const switchSaga = async (
     saga: Effect.Effect<any, any, any>,
   ): Promise<void> => {
-    if (running) {
-      const { runtime } = running
-      await Runtime.runPromise(runtime, Fiber.interrupt(running.fiber))
-      const fiber = Runtime.runFork(runtime, saga)
+    if (status !== 'running' || !sagaRuntime) {
+      throw new Error(
+        `[createEffectSagaRunner] cannot switch saga while ${status}`,
+      )
+    }
+
+    const { runtime } = sagaRuntime
+    retainSagas()
+    try {
+      if (running) {
+        await Runtime.runPromise(runtime, Fiber.interrupt(running.fiber))
+      }
+      const fiber = runSaga(runtime, 'root', superviseRoot(saga))
       attachFiberObserver(runtime, fiber)
+    } finally {
+      releaseSagas()
     }
   }
 
+  const injectSaga = (
+    key: string,
+    saga: Effect.Effect<any, any, any>,
+    injectOptions: InjectSagaOptions = {},
+  ): void => {
+    if (injected.has(key)) return
+
+    injected.set(key, {
+      saga: supervise(saga, {
+        name: key,
+        policy: injectOptions.supervision ?? { strategy: 'escalate' },
+      }),
+      fiber: null,
+    })
+    if (sagaRuntime) forkInjectedSaga(sagaRuntime.runtime, key)
+  }
+
+  const ejectSaga = async (key: string): Promise<void> => {
+    if (sagaRuntime) await interruptInjectedSaga(sagaRuntime.runtime, key)
+    injected.delete(key)
+  }
+
+  const getInjectedSagaKeys = (): string[] => [...injected.keys()]
+
+  const runUntilIdle = async (
+    idleOptions: RunUntilIdleOptions = {},
+  ): Promise<void> => {
+    if (status !== 'running') {
+      throw new Error(
+        `[createEffectSagaRunner] cannot run until idle while ${status}`,
+      )
+    }
+
+    const store = await storeDefer.promise
+    store.dispatch(END)
+
+    const timeout = Duration.decode(idleOptions.timeout ?? '5 seconds')
+    await withTimeout(
+      sagasDone.promise,
+      Duration.toMillis(timeout),
+      () =>
+        new Error(
+          `[createEffectSagaRunner] sagas still running after ${Duration.format(timeout)}`,
+        ),
+    )
+  }
+
   return {
     enhancer,
+    get status() {
+      return status
+    },
+    subscribe,
     start,
     switchSaga,
+    injectSaga,
+    ejectSaga,
+    getInjectedSagaKeys,
     stop,
+    get done() {
+      return sagasDone.promise
+    },
+    runUntilIdle,
   }
 }
 
+/**
+ * Builds the layers sagas run with. Scoped resources of `extraLayers` live
+ * until the returned runtime is disposed, while the `app` layer is only reused
+ * from its memo map.
+ */
 export async function makeSagaRuntime<
-  Layers extends Layer.Layer<any, any, any>[],
+  Layers extends Layer.Layer<never, any, any>[],
 >(context: {
-  store: ReduxStore & StoreExt
+  store: Store
   extraLayers?: undefined | Layers
+  app?: undefined | SharedAppLayer
 }): Promise<
-  Runtime.Runtime<StoreService | Layer.Layer.Context<Layers[number]>>
+  ManagedRuntime.ManagedRuntime<
+    StoreService | Layer.Layer.Success<Layers[number]>,
+    Layer.Layer.Error<Layers[number]>
+  >
 > {
   const storeLayer = makeStoreService(context.store)
 
-  const appLayer = Layer.mergeAll(storeLayer, ...(context.extraLayers ?? []))
+  const sagaLayer = Layer.mergeAll(storeLayer, ...(context.extraLayers ?? []))
 
-  const runtimeEffect = Layer.toRuntime(appLayer)
+  // Fresh, so that the layers of this runner are never shared through the
+  // memo map with other runners
+  const appLayer = context.app
+    ? Layer.fresh(sagaLayer).pipe(Layer.provideMerge(context.app.layer))
+    : sagaLayer
 
-  return await Effect.runPromise(Effect.scoped(runtimeEffect) as any)
-}
+  const runtime = ManagedRuntime.make(
+    appLayer as Layer.Layer<any, any, any> as Layer.Layer<any, any>,
+    context.app?.memoMap,
+  ) as ManagedRuntime.ManagedRuntime<
+    StoreService | Layer.Layer.Success<Layers[number]>,
+    Layer.Layer.Error<Layers[number]>
+  >
+
+  // Build the layers right away, so that failures surface here
+  try {
+    await runtime.runtime()
+  } catch (error) {
+    await runtime.dispose()
+    throw error
+  }
 
-const defaultRunnerErrorHandler = (exit: Exit.Failure<any, any>): void => {
-  console.groupCollapsed('[effect-saga] Unhandled saga error:')
-  console.error(Cause.pretty(exit.cause))
-  console.error(exit)
-  console.groupEnd()
+  return runtime
 }
 
+/**
+ * Runs the sagas concurrently. A saga ended by `EndOfStream` completes with
+ * `undefined` without affecting the others.
+ */
 export function combineSagas<Sagas extends Effect.Effect<any, any, any>[] = []>(
   ...sagas: Sagas
-): Effect.All.Return<
-  Sagas,
-  {
-    concurrency: 'unbounded'
-  }
+): Effect.Effect<
+  { -readonly [K in keyof Sagas]: Effect.Effect.Success<Sagas[K]> | void },
+  Exclude<Effect.Effect.Error<Sagas[number]>, EndOfStream>,
+  Effect.Effect.Context<Sagas[number]>
 > {
-  return Effect.all(sagas, {
+  return Effect.all(sagas.map(completeOnEnd), {
     concurrency: 'unbounded',
-  })
+  }) as Effect.Effect<any, any, any>
 }
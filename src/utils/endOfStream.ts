@@ -0,0 +1,29 @@
+import { Cause, Data, Effect, Option } from 'effect'
+
+/**
+ * Failure of `take` and `waitForState` when `END` completes the stream they
+ * wait on. It ends the saga that was waiting: `combineSagas`, saga helpers,
+ * `supervise` and the saga runner treat it as a normal completion, so that
+ * other sagas and running handlers are left alone.
+ */
+export class EndOfStream extends Data.TaggedError('EndOfStream') {}
+
+export const isEndOfStream = (error: unknown): error is EndOfStream =>
+  error instanceof EndOfStream
+
+/** Whether the cause is an `EndOfStream` failure */
+export const isEndOfStreamCause = (cause: Cause.Cause<unknown>): boolean =>
+  Option.exists(Cause.failureOption(cause), isEndOfStream)
+
+/**
+ * Completes the saga with `undefined` when it fails with `EndOfStream`, e.g.
+ * to fork a saga that should end quietly after `END`
+ */
+export const completeOnEnd = <A, E, R>(
+  saga: Effect.Effect<A, E, R>,
+): Effect.Effect<A | void, Exclude<E, EndOfStream>, R> =>
+  Effect.catchIf(saga, isEndOfStream, () => Effect.void) as Effect.Effect<
+    A | void,
+    Exclude<E, EndOfStream>,
+    R
+  >
@@ -0,0 +1,183 @@
+import { Action } from 'redux'
+import { Cause, Context, Effect, Layer } from 'effect'
+import { describe, expect, it } from 'vitest'
+import { actionPattern, makeActionStream, put, take, takeEvery } from '../core'
+import { combineSagas } from './effectSagaEnhancerFactory'
+import { expectSaga } from './expectSaga'
+
+describe('expectSaga', () => {
+  type State = { value: number }
+
+  const reducer = (state: State = { value: 0 }, action: Action): State =>
+    action.type === 'increment' ? { value: state.value + 1 } : state
+
+  it('should assert on puts and final state', async () => {
+    const saga = Effect.gen(function* () {
+      yield* put({ type: 'increment' })
+      yield* put({ type: 'increment' })
+      yield* put({ type: 'done', payload: { ok: true } })
+    })
+
+    const result = await expectSaga(saga, { reducer })
+      .put({ type: 'done', payload: { ok: true } })
+      .putMatching(actionPattern('increment'))
+      .notPut(actionPattern('failed'))
+      .hasFinalState({ value: 2 })
+      .run()
+
+    expect(result.completed).toBe(true)
+    expect(result.puts.map(a => a.type)).toEqual([
+      'increment',
+      'increment',
+      'done',
+    ])
+  })
+
+  it('should dispatch scripted actions without recording them as puts', async () => {
+    const saga = takeEvery(makeActionStream(actionPattern('ping')), () =>
+      put({ type: 'increment' }),
+    )
+
+    const result = await expectSaga(saga, {
+      reducer,
+      initialState: { value: 10 },
+    })
+      .dispatch({ type: 'ping' })
+      .delay('10 millis')
+      .dispatch({ type: 'ping' })
+      .hasFinalState({ value: 12 })
+      .run()
+
+    expect(result.completed).toBe(true)
+    expect(result.puts).toEqual([{ type: 'increment' }, { type: 'increment' }])
+  })
+
+  it('should finish watcher sagas without waiting for the timeout', async () => {
+    const saga = takeEvery(makeActionStream(actionPattern('ping')), () =>
+      put({ type: 'increment' }).pipe(Effect.delay('10 millis')),
+    )
+
+    const startedAt = Date.now()
+    const result = await expectSaga(saga, { reducer })
+      .dispatch({ type: 'ping' })
+      .hasFinalState({ value: 1 })
+      .run({ timeout: '5 seconds' })
+
+    expect(result.completed).toBe(true)
+    expect(Date.now() - startedAt).toBeLessThan(1000)
+  })
+
+  it('should report sagas still running after the timeout', async () => {
+    const saga = Effect.gen(function* () {
+      yield* take(makeActionStream(actionPattern('ping')))
+      yield* Effect.never
+    })
+
+    const result = await expectSaga(saga)
+      .dispatch({ type: 'ping' })
+      .run({ timeout: '20 millis' })
+
+    expect(result.completed).toBe(false)
+  })
+
+  it('should wait for every saga to subscribe before dispatching', async () => {
+    const saga = Effect.gen(function* () {
+      // Setup work running over several scheduler turns
+      for (let i = 0; i < 100; i++) yield* Effect.yieldNow()
+
+      yield* combineSagas(
+        takeEvery(makeActionStream(actionPattern('ping')), () =>
+          put({ type: 'increment' }),
+        ),
+        Effect.gen(function* () {
+          for (let i = 0; i < 100; i++) yield* Effect.yieldNow()
+
+          yield* takeEvery(makeActionStream(actionPattern('pong')), () =>
+            put({ type: 'increment' }),
+          )
+        }),
+      )
+    })
+
+    await expectSaga(saga, { reducer })
+      .dispatch({ type: 'ping' })
+      .dispatch({ type: 'pong' })
+      .hasFinalState({ value: 2 })
+      .run()
+  })
+
+  it('should let a take loop subscribe again between dispatches', async () => {
+    const saga = Effect.gen(function* () {
+      const stream = makeActionStream(actionPattern('ping'))
+      while (true) {
+        yield* take(stream)
+        yield* put({ type: 'increment' })
+      }
+    })
+
+    await expectSaga(saga, { reducer })
+      .dispatch({ type: 'ping' })
+      .dispatch({ type: 'ping' })
+      .dispatch({ type: 'ping' })
+      .hasFinalState({ value: 3 })
+      .run()
+  })
+
+  it('should reject when the sagas do not settle in time', async () => {
+    const busy = Effect.yieldNow().pipe(Effect.forever)
+
+    await expect(
+      expectSaga(busy).dispatch({ type: 'ping' }).run({ timeout: '20 millis' }),
+    ).rejects.toThrow('sagas still running after 20ms, before dispatching ping')
+  })
+
+  it('should collect errors reported to onError', async () => {
+    const saga = Effect.gen(function* () {
+      yield* take(makeActionStream(actionPattern('go')))
+      return yield* Effect.fail('boom')
+    })
+
+    const result = await expectSaga(saga)
+      .dispatch({ type: 'go' })
+      .throws(exit => Cause.failureOption(exit.cause)._tag === 'Some')
+      .run()
+
+    expect(result.errors).toHaveLength(1)
+  })
+
+  it('should record calls made on services from layers', async () => {
+    class Api extends Context.Tag('Api')<
+      Api,
+      { fetchUser: (id: number) => Effect.Effect<string> }
+    >() {}
+
+    const saga = Effect.gen(function* () {
+      const api = yield* Api
+      const name = yield* api.fetchUser(1)
+      yield* put({ type: 'user/loaded', payload: name })
+    })
+
+    const result = await expectSaga(saga, {
+      layers: [Layer.succeed(Api, { fetchUser: () => Effect.succeed('John') })],
+    })
+      .calls(Api, 'fetchUser', 1)
+      .put({ type: 'user/loaded', payload: 'John' })
+      .run()
+
+    expect(result.calls).toEqual([
+      { service: 'Api', method: 'fetchUser', args: [1] },
+    ])
+  })
+
+  it('should reject with every failed expectation', async () => {
+    const saga = put({ type: 'increment' })
+
+    await expect(
+      expectSaga(saga, { reducer })
+        .put({ type: 'other' })
+        .hasFinalState({ value: 5 })
+        .throws()
+        .run(),
+    ).rejects.toThrow(/3 expectation\(s\) failed/)
+  })
+})
@@ -0,0 +1,332 @@
+import { Context, Duration, Effect, Exit, Layer, Scheduler } from 'effect'
+import {
+  legacy_createStore as createStore,
+  Reducer,
+  UnknownAction,
+} from 'redux'
+import { ActionPattern, isEnd, StoreService } from '../core'
+import { deepEqual } from '../helpers/equalityHelpers'
+import { sleep, withTimeout } from '../helpers/promiseHelpers'
+import { createEffectSagaRunner } from './effectSagaEnhancerFactory'
+
+export interface ServiceCall {
+  /** Key of the service tag, e.g. `'LoggerService'` */
+  readonly service: string
+  readonly method: string
+  readonly args: ReadonlyArray<unknown>
+}
+
+export interface ExpectSagaResult<S> {
+  /** Actions dispatched by the saga, scripted dispatches excluded */
+  readonly puts: ReadonlyArray<UnknownAction>
+  readonly state: S
+  /** Failures reported to the runner's `onError` */
+  readonly errors: ReadonlyArray<Exit.Failure<any, any>>
+  /** Method calls made on services provided by `layers` */
+  readonly calls: ReadonlyArray<ServiceCall>
+  /** Whether the sagas finished within the timeout once `END` was dispatched */
+  readonly completed: boolean
+}
+
+export interface ExpectSagaOptions<S> {
+  reducer?: Reducer<S, any>
+  initialState?: S
+  layers?: Layer.Layer<any, any, any>[]
+}
+
+export interface ExpectSagaRunOptions {
+  /**
+   * How long to wait for the sagas to settle before each scripted dispatch,
+   * and to finish once `END` was dispatched, defaults to 250 millis
+   */
+  timeout?: Duration.DurationInput
+}
+
+export interface ExpectSaga<S> {
+  /**
+   * Dispatches an action once the sagas settled, each waiting for an
+   * action, a timer or another fiber
+   */
+  dispatch: (action: UnknownAction) => ExpectSaga<S>
+  /** Waits before the next scripted dispatch */
+  delay: (duration: Duration.DurationInput) => ExpectSaga<S>
+
+  /** Expects the saga to put an action deeply equal to `action` */
+  put: (action: UnknownAction) => ExpectSaga<S>
+  /** Expects the saga to put an action matching `pattern` */
+  putMatching: (pattern: ActionPattern) => ExpectSaga<S>
+  /** Expects the saga to never put an action matching `pattern` */
+  notPut: (pattern: ActionPattern) => ExpectSaga<S>
+  /** Expects the final state to be deeply equal to `state` */
+  hasFinalState: (state: S) => ExpectSaga<S>
+  /** Expects an error to be reported, optionally matching `predicate` */
+  throws: (
+    predicate?: (exit: Exit.Failure<any, any>) => boolean,
+  ) => ExpectSaga<S>
+  /** Expects a service method to be called, with `args` if given */
+  calls: (
+    tag: Context.Tag<any, any>,
+    method: string,
+    ...args: unknown[]
+  ) => ExpectSaga<S>
+
+  /**
+   * Runs the saga on a real store: dispatches the scripted actions, each once
+   * the sagas settled, then `END` so that watchers finish, and waits until
+   * the sagas are idle. Checks every expectation afterwards, rejecting with
+   * all failed ones.
+   */
+  run: (options?: ExpectSagaRunOptions) => Promise<ExpectSagaResult<S>>
+}
+
+type Step =
+  | { readonly _tag: 'dispatch'; readonly action: UnknownAction }
+  | { readonly _tag: 'delay'; readonly duration: Duration.DurationInput }
+
+type Expectation<S> = (result: ExpectSagaResult<S>) => string | undefined
+
+export function expectSaga<S = any>(
+  saga: Effect.Effect<any, any, any>,
+  options: ExpectSagaOptions<S> = {},
+): ExpectSaga<S> {
+  const steps: Step[] = []
+  const expectations: Expectation<S>[] = []
+
+  const builder: ExpectSaga<S> = {
+    dispatch: action => {
+      steps.push({ _tag: 'dispatch', action })
+      return builder
+    },
+    delay: duration => {
+      steps.push({ _tag: 'delay', duration })
+      return builder
+    },
+    put: action => {
+      expectations.push(result =>
+        result.puts.some(a => deepEqual(a, action))
+          ? undefined
+          : `expected put ${JSON.stringify(action)}, got ${formatPuts(result.puts)}`,
+      )
+      return builder
+    },
+    putMatching: pattern => {
+      expectations.push(result =>
+        result.puts.some(pattern)
+          ? undefined
+          : `expected a put matching the pattern, got ${formatPuts(result.puts)}`,
+      )
+      return builder
+    },
+    notPut: pattern => {
+      expectations.push(result => {
+        const action = result.puts.find(pattern)
+        return action
+          ? `expected no put matching the pattern, got ${JSON.stringify(action)}`
+          : undefined
+      })
+      return builder
+    },
+    hasFinalState: state => {
+      expectations.push(result =>
+        deepEqual(result.state, state)
+          ? undefined
+          : `expected final state ${JSON.stringify(state)}, got ${JSON.stringify(result.state)}`,
+      )
+      return builder
+    },
+    throws: predicate => {
+      expectations.push(result =>
+        result.errors.some(exit => !predicate || predicate(exit))
+          ? undefined
+          : `expected the saga to report an error, got ${result.errors.length} matching none`,
+      )
+      return builder
+    },
+    calls: (tag, method, ...args) => {
+      expectations.push(result =>
+        result.calls.some(
+          call =>
+            call.service === tag.key &&
+            call.method === method &&
+            (args.length === 0 || deepEqual(call.args, args)),
+        )
+          ? undefined
+          : `expected ${tag.key}.${method} to be called${
+              args.length ? ` with ${JSON.stringify(args)}` : ''
+            }`,
+      )
+      return builder
+    },
+    run: async (runOptions = {}) => {
+      const result = await runExpectSaga(saga, options, steps, runOptions)
+
+      const failures = expectations
+        .map(expectation => expectation(result))
+        .filter((failure): failure is string => failure != null)
+
+      if (failures.length > 0) {
+        throw new Error(
+          `[expectSaga] ${failures.length} expectation(s) failed:\n` +
+            failures.map(failure => `  - ${failure}`).join('\n'),
+        )
+      }
+
+      return result
+    },
+  }
+
+  return builder
+}
+
+async function runExpectSaga<S>(
+  saga: Effect.Effect<any, any, any>,
+  options: ExpectSagaOptions<S>,
+  steps: Step[],
+  runOptions: ExpectSagaRunOptions,
+): Promise<ExpectSagaResult<S>> {
+  const calls: ServiceCall[] = []
+  const errors: Exit.Failure<any, any>[] = []
+  const puts: UnknownAction[] = []
+  const scripted = new Set<UnknownAction>()
+
+  const scheduler = makeSettlingScheduler()
+
+  const runner = await createEffectSagaRunner(
+    saga as Effect.Effect<any, any, StoreService>,
+    {
+      extraLayers: [
+        ...(options.layers ?? []).map(layer => spyLayer(layer, calls)),
+        Layer.setScheduler(scheduler),
+      ],
+      onError: exit => errors.push(exit),
+    },
+  )
+
+  const reducer: Reducer<any, any> =
+    options.reducer ?? ((state = options.initialState ?? {}) => state)
+
+  const store =
+    options.initialState === undefined
+      ? createStore(reducer, runner.enhancer)
+      : createStore(reducer, options.initialState, runner.enhancer)
+
+  store.subscribeAction(action => {
+    if (!scripted.has(action) && !isEnd(action)) puts.push(action)
+  })
+
+  const timeout = Duration.decode(runOptions.timeout ?? '250 millis')
+
+  // Dispatches once no saga fiber is ready to run, i.e. every saga started
+  // so far waits for an action, a timer or another fiber
+  const dispatch = async (action: UnknownAction): Promise<void> => {
+    await withTimeout(
+      scheduler.settled(),
+      Duration.toMillis(timeout),
+      () =>
+        new Error(
+          `[expectSaga] sagas still running after ${Duration.format(timeout)}, before dispatching ${action.type}`,
+        ),
+    )
+
+    scripted.add(action)
+    store.dispatch(action)
+  }
+
+  await runner.start()
+
+  try {
+    for (const step of steps) {
+      if (step._tag === 'delay') {
+        await sleep(Duration.toMillis(step.duration))
+      } else {
+        await dispatch(step.action)
+      }
+    }
+  } catch (error) {
+    await runner.stop()
+    throw error
+  }
+
+  const completed = await runner.runUntilIdle({ timeout }).then(
+    () => true,
+    () => false,
+  )
+
+  await runner.stop()
+
+  return {
+    puts,
+    state: store.getState(),
+    errors,
+    calls,
+    completed,
+  }
+}
+
+/**
+ * Runs fibers on the default scheduler, counting the tasks it has not run
+ * yet. A fiber is scheduled whenever it is ready to run: when forked, when it
+ * yields, and when what it waited for happened.
+ */
+function makeSettlingScheduler(): Scheduler.Scheduler & {
+  /** Resolves once no task is left to run */
+  settled: () => Promise<void>
+} {
+  let pending = 0
+
+  return {
+    shouldYield: fiber => Scheduler.defaultScheduler.shouldYield(fiber),
+    scheduleTask: (task, priority) => {
+      pending += 1
+      Scheduler.defaultScheduler.scheduleTask(() => {
+        pending -= 1
+        task()
+      }, priority)
+    },
+    settled: async () => {
+      do await sleep(0)
+      while (pending > 0)
+    },
+  }
+}
+
+/**
+ * Wraps every service built by the layer so that its method calls are
+ * recorded into `calls`
+ */
+function spyLayer<ROut, E, RIn>(
+  layer: Layer.Layer<ROut, E, RIn>,
+  calls: ServiceCall[],
+): Layer.Layer<ROut, E, RIn> {
+  return Layer.map(layer, context => {
+    const spied = new Map<string, any>()
+
+    context.unsafeMap.forEach((service, key) => {
+      spied.set(key, spyService(key, service, calls))
+    })
+
+    return Context.unsafeMake(spied)
+  })
+}
+
+function spyService(key: string, service: unknown, calls: ServiceCall[]): any {
+  if (typeof service !== 'object' || service === null) return service
+
+  return new Proxy(service, {
+    get: (target, property, receiver) => {
+      const value = Reflect.get(target, property, receiver)
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value
+      }
+
+      return (...args: unknown[]) => {
+        calls.push({ service: key, method: property, args })
+        return value.apply(target, args)
+      }
+    },
+  })
+}
+
+function formatPuts(puts: ReadonlyArray<UnknownAction>): string {
+  return JSON.stringify(puts.map(action => action.type))
+}
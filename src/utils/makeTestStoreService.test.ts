@@ -0,0 +1,154 @@
+import { Effect, Fiber, TestClock, TestContext } from 'effect'
+import { describe, expect, it } from 'vitest'
+import {
+  actionPattern,
+  debounce,
+  makeActionStream,
+  put,
+  select,
+  take,
+  takeEvery,
+} from '../core'
+import { ExpectPutError, makeTestStoreService } from './makeTestStoreService'
+
+describe('makeTestStoreService', () => {
+  type State = { value: number }
+
+  const reducer = (state: State = { value: 0 }, action: any): State =>
+    action.type === 'add' ? { value: state.value + action.payload } : state
+
+  it('should record puts and reduce state', async () => {
+    const testStore = makeTestStoreService({
+      initialState: { value: 1 },
+      reducer,
+    })
+
+    const saga = Effect.gen(function* () {
+      yield* put({ type: 'add', payload: 2 })
+      return yield* select((state: State) => state.value)
+    })
+
+    const value = await Effect.runPromise(
+      saga.pipe(Effect.provide(testStore.layer)),
+    )
+
+    expect(value).toBe(3)
+    expect(testStore.puts).toEqual([{ type: 'add', payload: 2 }])
+    expect(testStore.getState()).toEqual({ value: 3 })
+  })
+
+  it('should keep state unchanged without a reducer', async () => {
+    const testStore = makeTestStoreService({ initialState: { value: 1 } })
+
+    await Effect.runPromise(
+      put({ type: 'add', payload: 2 }).pipe(Effect.provide(testStore.layer)),
+    )
+
+    expect(testStore.puts).toHaveLength(1)
+    expect(testStore.getState()).toEqual({ value: 1 })
+  })
+
+  it('should deliver emitted actions to sagas without recording them', async () => {
+    const testStore = makeTestStoreService({
+      initialState: { value: 0 },
+      reducer,
+    })
+
+    const program = Effect.gen(function* () {
+      const fiber = yield* Effect.fork(
+        takeEvery(makeActionStream(actionPattern('ping')), () =>
+          put({ type: 'pong' }),
+        ),
+      )
+      yield* testStore.awaitListeners()
+
+      yield* testStore.emit({ type: 'ping' })
+      yield* testStore.emit({ type: 'add', payload: 5 })
+      yield* Effect.sleep('10 millis')
+
+      yield* Fiber.interrupt(fiber)
+    })
+
+    await Effect.runPromise(program.pipe(Effect.provide(testStore.layer)))
+
+    expect(testStore.puts).toEqual([{ type: 'pong' }])
+    expect(testStore.getState()).toEqual({ value: 5 })
+  })
+
+  it('should pass the state before the action as snapshot', async () => {
+    const testStore = makeTestStoreService({
+      initialState: { value: 0 },
+      reducer,
+    })
+
+    const program = Effect.gen(function* () {
+      const fiber = yield* Effect.fork(
+        take(makeActionStream(actionPattern('add'))),
+      )
+      yield* testStore.awaitListeners()
+      yield* testStore.emit({ type: 'add', payload: 1 })
+      return yield* Fiber.join(fiber)
+    })
+
+    const item = await Effect.runPromise(
+      program.pipe(Effect.provide(testStore.layer)),
+    )
+
+    expect(item.stateSnapshot).toEqual({ value: 0 })
+    expect(item.state).toEqual({ value: 1 })
+  })
+
+  it('should assert on puts with expectPut', async () => {
+    const testStore = makeTestStoreService({ initialState: {} })
+
+    await Effect.runPromise(
+      put({ type: 'done', payload: 1 }).pipe(Effect.provide(testStore.layer)),
+    )
+
+    const action = await Effect.runPromise(
+      testStore.expectPut(
+        actionPattern<{ type: 'done'; payload: number }>('done'),
+      ),
+    )
+    expect(action.payload).toBe(1)
+
+    const error = await Effect.runPromise(
+      Effect.flip(testStore.expectPut(actionPattern('missing'))),
+    )
+    expect(error).toBeInstanceOf(ExpectPutError)
+    expect(error.puts).toEqual([{ type: 'done', payload: 1 }])
+
+    testStore.clearPuts()
+    expect(testStore.puts).toEqual([])
+  })
+
+  it('should work with TestClock', async () => {
+    const testStore = makeTestStoreService({ initialState: {} })
+
+    const program = Effect.gen(function* () {
+      const fiber = yield* Effect.fork(
+        debounce(makeActionStream(actionPattern('search')), '1 second', () =>
+          put({ type: 'search/run' }),
+        ),
+      )
+      yield* testStore.awaitListeners()
+
+      yield* testStore.emit({ type: 'search' })
+      yield* testStore.emit({ type: 'search' })
+      yield* TestClock.adjust('1 second')
+      yield* Effect.yieldNow()
+
+      yield* testStore.expectPut(actionPattern('search/run'))
+      yield* Fiber.interrupt(fiber)
+    })
+
+    await Effect.runPromise(
+      program.pipe(
+        Effect.provide(testStore.layer),
+        Effect.provide(TestContext.TestContext),
+      ),
+    )
+
+    expect(testStore.puts).toEqual([{ type: 'search/run' }])
+  })
+})
@@ -0,0 +1,129 @@
+import { Data, Effect, Layer } from 'effect'
+import { UnknownAction } from 'redux'
+import { ActionPattern, isEnd, StoreService } from '../core'
+import { ActionListener } from './subscribeStoreActionEnhancerFactory'
+
+export class ExpectPutError extends Data.TaggedError('ExpectPutError')<{
+  readonly message: string
+  readonly puts: ReadonlyArray<UnknownAction>
+}> {}
+
+export interface MakeTestStoreServiceOptions<S> {
+  initialState: S
+  reducer?: (state: S, action: any) => S
+}
+
+export interface TestStoreService<S> {
+  /** Layer providing a `StoreService` backed by this test store */
+  readonly layer: Layer.Layer<StoreService>
+  /** Every action dispatched by sagas through `put`, in order */
+  readonly puts: ReadonlyArray<UnknownAction>
+  readonly getState: () => S
+  /**
+   * Dispatches an action as if it came from outside the sagas: it goes
+   * through the reducer and reaches `subscribeAction` listeners, but is not
+   * recorded in `puts`
+   */
+  readonly emit: (action: UnknownAction) => Effect.Effect<void>
+  /**
+   * Waits until at least `count` `subscribeAction` listeners are registered,
+   * i.e. until the sagas under test are ready to receive emitted actions
+   */
+  readonly awaitListeners: (count?: number) => Effect.Effect<void>
+  /** Succeeds with the first recorded put matching the pattern */
+  readonly expectPut: <T extends UnknownAction>(
+    pattern: ActionPattern<T>,
+  ) => Effect.Effect<T, ExpectPutError>
+  /** Forgets recorded puts */
+  readonly clearPuts: () => void
+}
+
+export function makeTestStoreService<S>(
+  options: MakeTestStoreServiceOptions<S>,
+): TestStoreService<S> {
+  let state = options.initialState
+  let version = 0
+  let ended = false
+  let listeners: ActionListener[] = []
+  const puts: UnknownAction[] = []
+  let listenerWaiters: { count: number; resume: () => void }[] = []
+
+  const notifyListenerWaiters = (): void => {
+    const ready = listenerWaiters.filter(w => listeners.length >= w.count)
+    listenerWaiters = listenerWaiters.filter(w => listeners.length < w.count)
+    ready.forEach(w => w.resume())
+  }
+
+  const reduce = (action: UnknownAction): void => {
+    const stateSnapshot = state
+    if (options.reducer) state = options.reducer(state, action)
+    version += 1
+    if (isEnd(action)) ended = true
+
+    const dispatched = { version, state }
+    listeners.forEach(listener => {
+      try {
+        listener(action, stateSnapshot, dispatched)
+      } catch (error) {
+        console.error('Error in action listener:', error)
+      }
+    })
+  }
+
+  const layer = Layer.succeed(
+    StoreService,
+    StoreService.of({
+      dispatch: action => {
+        puts.push(action)
+        reduce(action)
+      },
+      getState: () => state,
+      getStateVersion: () => version,
+      isEnded: () => ended,
+      subscribeAction: listener => {
+        listeners.push(listener)
+        notifyListenerWaiters()
+
+        return () => {
+          listeners = listeners.filter(l => l !== listener)
+        }
+      },
+    }),
+  )
+
+  return {
+    layer,
+    puts,
+    getState: () => state,
+    emit: action => Effect.sync(() => reduce(action)),
+    awaitListeners: (count = 1) =>
+      Effect.async<void>(resume => {
+        if (listeners.length >= count) return resume(Effect.void)
+
+        const waiter = { count, resume: () => resume(Effect.void) }
+        listenerWaiters.push(waiter)
+
+        return Effect.sync(() => {
+          listenerWaiters = listenerWaiters.filter(w => w !== waiter)
+        })
+      }),
+    expectPut: <T extends UnknownAction>(pattern: ActionPattern<T>) =>
+      Effect.suspend(() => {
+        const action = puts.find(pattern)
+
+        return action
+          ? Effect.succeed(action)
+          : Effect.fail(
+              new ExpectPutError({
+                message: `Expected a matching put, got: ${JSON.stringify(
+                  puts.map(a => a.type),
+                )}`,
+                puts: [...puts],
+              }),
+            )
+      }),
+    clearPuts: () => {
+      puts.length = 0
+    },
+  }
+}
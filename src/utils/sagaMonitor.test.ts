@@ -0,0 +1,193 @@
+import { Effect } from 'effect'
+import { Action, createStore } from 'redux'
+import { describe, expect, it } from 'vitest'
+import { actionPattern, makeActionStream, put, takeEvery } from '../core'
+import { sleep } from '../helpers/promiseHelpers'
+import { createEffectSagaRunner } from './effectSagaEnhancerFactory'
+import { makeInMemorySagaMonitor, SagaMonitorEvent } from './sagaMonitor'
+
+const reducer = (state: string[] = [], action: Action): string[] => [
+  ...state,
+  action.type,
+]
+
+const a = (n: number): Action => ({ type: `action/${n}` })
+
+const tagsOf = (events: ReadonlyArray<SagaMonitorEvent>): string[] =>
+  events.map(event => event._tag)
+
+describe('sagaMonitor', () => {
+  it('should report sagas, handlers and put actions with their parents', async () => {
+    const monitor = makeInMemorySagaMonitor()
+
+    const saga = takeEvery(
+      makeActionStream(actionPattern('todo/add')),
+      ({ action }) => put({ type: 'todo/added', payload: action }),
+    )
+
+    const runner = await createEffectSagaRunner(saga, { monitor })
+    const store = createStore(reducer, runner.enhancer)
+    await runner.start()
+    await sleep(10)
+
+    store.dispatch({ type: 'todo/add' })
+    await sleep(10)
+
+    expect(tagsOf(monitor.events)).toEqual([
+      'SagaStarted',
+      'HandlerForked',
+      'ActionPut',
+      'HandlerCompleted',
+    ])
+
+    const [started, forked, putEvent] = monitor.events
+    expect(forked).toMatchObject({
+      _tag: 'HandlerForked',
+      parentId: (started as { id: string }).id,
+      helper: 'takeEvery',
+      action: { type: 'todo/add' },
+    })
+    expect(putEvent).toMatchObject({
+      _tag: 'ActionPut',
+      parentId: (forked as { id: string }).id,
+      action: { type: 'todo/added' },
+    })
+
+    await runner.stop()
+    expect(monitor.events.at(-1)).toMatchObject({
+      _tag: 'SagaStopped',
+      name: 'root',
+    })
+  })
+
+  it('should render running sagas and handlers as a tree', async () => {
+    const monitor = makeInMemorySagaMonitor({ keepDone: true })
+
+    const saga = takeEvery(makeActionStream(actionPattern('job/start')), () =>
+      takeEvery(
+        makeActionStream(actionPattern('job/step')),
+        () => Effect.never,
+      ),
+    )
+
+    const runner = await createEffectSagaRunner(saga, { monitor })
+    const store = createStore(reducer, runner.enhancer)
+    await runner.start()
+    runner.injectSaga('idle', Effect.never)
+    await sleep(10)
+
+    store.dispatch({ type: 'job/start' })
+    await sleep(10)
+    store.dispatch({ type: 'job/step' })
+    await sleep(10)
+
+    expect(monitor.renderTree().replace(/-\d+/g, '-n')).toBe(
+      [
+        'saga root (saga-n) running',
+        '  takeEvery job/start (handler-n) running',
+        '    takeEvery job/step (handler-n) running',
+        'saga idle (saga-n) running',
+      ].join('\n'),
+    )
+
+    await runner.ejectSaga('idle')
+    expect(monitor.renderTree().replace(/-\d+/g, '-n')).not.toContain('idle')
+    expect(
+      monitor.renderTree({ includeDone: true }).replace(/-\d+/g, '-n'),
+    ).toContain('saga idle (saga-n) interrupted')
+
+    await runner.stop()
+    expect(monitor.renderTree()).toBe('')
+    expect(
+      tagsOf(monitor.events).filter(tag => tag === 'HandlerInterrupted'),
+    ).toHaveLength(2)
+  })
+
+  it('should report failed handlers and forget finished ones on clear', async () => {
+    const monitor = makeInMemorySagaMonitor({ keepDone: true })
+
+    const saga = takeEvery(
+      makeActionStream(actionPattern('job/fail')),
+      () => Effect.fail('boom'),
+      { onHandlerError: () => Effect.void },
+    )
+
+    const runner = await createEffectSagaRunner(saga, { monitor })
+    const store = createStore(reducer, runner.enhancer)
+    await runner.start()
+    await sleep(10)
+
+    store.dispatch({ type: 'job/fail' })
+    await sleep(10)
+
+    expect(tagsOf(monitor.events)).toEqual([
+      'SagaStarted',
+      'HandlerForked',
+      'HandlerFailed',
+    ])
+    expect(monitor.renderTree({ includeDone: true })).toContain(
+      'takeEvery job/fail',
+    )
+
+    monitor.clear()
+    expect(monitor.events).toEqual([])
+    expect(monitor.renderTree({ includeDone: true })).toMatch(
+      /^saga root \(saga-\d+\) running$/,
+    )
+
+    await runner.stop()
+  })
+
+  it('should forget finished handlers by default', async () => {
+    const monitor = makeInMemorySagaMonitor()
+
+    const saga = takeEvery(makeActionStream(actionPattern('job/start')), () =>
+      takeEvery(
+        makeActionStream(actionPattern('job/step')),
+        () => Effect.void,
+      ).pipe(Effect.race(Effect.sleep('20 millis'))),
+    )
+
+    const runner = await createEffectSagaRunner(saga, { monitor })
+    const store = createStore(reducer, runner.enhancer)
+    await runner.start()
+    await sleep(10)
+
+    store.dispatch({ type: 'job/start' })
+    await sleep(5)
+    store.dispatch({ type: 'job/step' })
+    await sleep(5)
+
+    expect(monitor.renderTree().replace(/-\d+/g, '-n')).toBe(
+      [
+        'saga root (saga-n) running',
+        '  takeEvery job/start (handler-n) running',
+      ].join('\n'),
+    )
+    expect(tagsOf(monitor.events)).toContain('HandlerCompleted')
+    expect(monitor.renderTree({ includeDone: true })).not.toContain('job/step')
+
+    await sleep(30)
+    expect(monitor.renderTree({ includeDone: true })).toMatch(
+      /^saga root \(saga-\d+\) running$/,
+    )
+
+    await runner.stop()
+  })
+
+  it('should keep only the latest maxEvents events', () => {
+    const monitor = makeInMemorySagaMonitor({ maxEvents: 2 })
+
+    monitor.onEvent({ _tag: 'ActionPut', parentId: undefined, action: a(1) })
+    monitor.onEvent({ _tag: 'ActionPut', parentId: undefined, action: a(2) })
+    monitor.onEvent({ _tag: 'ActionPut', parentId: undefined, action: a(3) })
+
+    expect(
+      monitor.events.map(event => (event as { action: Action }).action),
+    ).toEqual([a(2), a(3)])
+
+    monitor.clear()
+    monitor.onEvent({ _tag: 'ActionPut', parentId: undefined, action: a(4) })
+    expect(monitor.events).toHaveLength(1)
+  })
+})
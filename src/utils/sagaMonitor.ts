@@ -0,0 +1,234 @@
+import { Cause, Context, Exit, FiberRef } from 'effect'
+import { Action } from 'redux'
+
+/**
+ * What a saga monitor is told about. Sagas and handlers get unique ids, and
+ * `parentId` is the id of the saga or handler that started a handler or
+ * dispatched an action.
+ */
+export type SagaMonitorEvent =
+  | { readonly _tag: 'SagaStarted'; readonly id: string; readonly name: string }
+  | {
+      readonly _tag: 'SagaStopped'
+      readonly id: string
+      readonly name: string
+      readonly exit: Exit.Exit<unknown, unknown>
+    }
+  | {
+      readonly _tag: 'HandlerForked'
+      readonly id: string
+      readonly parentId: string | undefined
+      /** Name of the helper running the handler, e.g. `takeEvery` */
+      readonly helper: string
+      /** The action handled, when the handled value is an action stream item */
+      readonly action: Action | undefined
+    }
+  | { readonly _tag: 'HandlerCompleted'; readonly id: string }
+  | {
+      readonly _tag: 'HandlerFailed'
+      readonly id: string
+      readonly cause: Cause.Cause<unknown>
+    }
+  | { readonly _tag: 'HandlerInterrupted'; readonly id: string }
+  | {
+      readonly _tag: 'ActionPut'
+      readonly parentId: string | undefined
+      readonly action: Action
+    }
+
+export interface SagaMonitor {
+  /** Called synchronously, so it should not do heavy work */
+  readonly onEvent: (event: SagaMonitorEvent) => void
+}
+
+/**
+ * The monitor sagas report to, the saga runner provides its `monitor`
+ * option. Nothing is reported by default.
+ */
+export class SagaMonitorService extends Context.Reference<SagaMonitorService>()(
+  'SagaMonitorService',
+  { defaultValue: (): SagaMonitor | undefined => undefined },
+) {}
+
+/** Id of the saga or handler running in the current fiber */
+export const CurrentSagaNode = FiberRef.unsafeMake<string | undefined>(
+  undefined,
+)
+
+/** Name of the saga running in the current fiber, e.g. its injection key */
+export const CurrentSagaName = FiberRef.unsafeMake<string | undefined>(
+  undefined,
+)
+
+let nextNodeId = 0
+
+export const makeSagaNodeId = (kind: 'saga' | 'handler'): string =>
+  `${kind}-${++nextNodeId}`
+
+type NodeStatus = 'running' | 'completed' | 'failed' | 'interrupted'
+
+interface MonitorNode {
+  readonly id: string
+  readonly parentId: string | undefined
+  readonly label: string
+  status: NodeStatus
+}
+
+export interface RenderTreeOptions {
+  /**
+   * Also render sagas and handlers that finished, when the monitor keeps
+   * them, defaults to `false`
+   */
+  includeDone?: boolean
+}
+
+export interface InMemorySagaMonitorOptions {
+  /**
+   * Keeps finished sagas and handlers until `clear()`, defaults to `false`:
+   * they are forgotten once none of their children is running
+   */
+  keepDone?: boolean
+  /** How many of the latest events are kept, defaults to 1000 */
+  maxEvents?: number
+}
+
+export interface InMemorySagaMonitor extends SagaMonitor {
+  /** The latest events received, up to `maxEvents`, in order */
+  readonly events: ReadonlyArray<SagaMonitorEvent>
+  /**
+   * Renders sagas and the handlers they run as an indented tree, e.g.
+   *
+   * ```text
+   * saga root (saga-1) running
+   *   takeEvery todo/add (handler-2) running
+   * ```
+   */
+  readonly renderTree: (options?: RenderTreeOptions) => string
+  /** Forgets the events and finished nodes */
+  readonly clear: () => void
+}
+
+export function makeInMemorySagaMonitor(
+  options: InMemorySagaMonitorOptions = {},
+): InMemorySagaMonitor {
+  const { keepDone = false, maxEvents = 1000 } = options
+
+  // Ring buffer, `oldest` is the index of the oldest event once it is full
+  const events: SagaMonitorEvent[] = []
+  let oldest = 0
+  const nodes = new Map<string, MonitorNode>()
+
+  const record = (event: SagaMonitorEvent): void => {
+    if (maxEvents < 1) return
+    if (events.length < maxEvents) {
+      events.push(event)
+      return
+    }
+
+    events[oldest] = event
+    oldest = (oldest + 1) % maxEvents
+  }
+
+  const hasChildren = (id: string): boolean =>
+    [...nodes.values()].some(node => node.parentId === id)
+
+  // Forgets the node once finished without children, then its parents
+  const forget = (node: MonitorNode | undefined): void => {
+    if (!node || node.status === 'running' || hasChildren(node.id)) return
+
+    nodes.delete(node.id)
+    if (node.parentId != null) forget(nodes.get(node.parentId))
+  }
+
+  const finish = (id: string, status: NodeStatus): void => {
+    const node = nodes.get(id)
+    if (!node) return
+
+    node.status = status
+    if (!keepDone) forget(node)
+  }
+
+  const onEvent = (event: SagaMonitorEvent): void => {
+    record(event)
+
+    switch (event._tag) {
+      case 'SagaStarted':
+        nodes.set(event.id, {
+          id: event.id,
+          parentId: undefined,
+          label: `saga ${event.name}`,
+          status: 'running',
+        })
+        break
+      case 'SagaStopped':
+        finish(
+          event.id,
+          Exit.isSuccess(event.exit)
+            ? 'completed'
+            : Cause.isInterruptedOnly(event.exit.cause)
+              ? 'interrupted'
+              : 'failed',
+        )
+        break
+      case 'HandlerForked':
+        nodes.set(event.id, {
+          id: event.id,
+          parentId: event.parentId,
+          label: event.action
+            ? `${event.helper} ${event.action.type}`
+            : event.helper,
+          status: 'running',
+        })
+        break
+      case 'HandlerCompleted':
+        finish(event.id, 'completed')
+        break
+      case 'HandlerFailed':
+        finish(event.id, 'failed')
+        break
+      case 'HandlerInterrupted':
+        finish(event.id, 'interrupted')
+        break
+    }
+  }
+
+  const renderTree = (options: RenderTreeOptions = {}): string => {
+    const visible = [...nodes.values()].filter(
+      node => options.includeDone || node.status === 'running',
+    )
+    const visibleIds = new Set(visible.map(node => node.id))
+
+    const lines: string[] = []
+    const render = (node: MonitorNode, depth: number): void => {
+      lines.push(
+        `${'  '.repeat(depth)}${node.label} (${node.id}) ${node.status}`,
+      )
+      visible
+        .filter(child => child.parentId === node.id)
+        .forEach(child => render(child, depth + 1))
+    }
+
+    visible
+      .filter(node => node.parentId == null || !visibleIds.has(node.parentId))
+      .forEach(node => render(node, 0))
+
+    return lines.join('\n')
+  }
+
+  const clear = (): void => {
+    events.length = 0
+    oldest = 0
+    for (const node of nodes.values()) {
+      if (node.status !== 'running') nodes.delete(node.id)
+    }
+  }
+
+  return {
+    onEvent,
+    get events() {
+      return [...events.slice(oldest), ...events.slice(0, oldest)]
+    },
+    renderTree,
+    clear,
+  }
+}
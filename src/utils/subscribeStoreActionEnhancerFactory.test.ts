@@ -40,7 +40,11 @@ describe('subscribeStoreActionEnhancerFactory', () => {
     store.dispatch(action)
 
     expect(listener).toHaveBeenCalledTimes(1)
-    expect(listener).toHaveBeenCalledWith(action, { value: 0 })
+    expect(listener).toHaveBeenCalledWith(
+      action,
+      { value: 0 },
+      { version: 2, state: { value: 1 } },
+    )
   })
 
   it('should provide state snapshot before action is processed', () => {
@@ -77,6 +81,73 @@ describe('subscribeStoreActionEnhancerFactory', () => {
     })
   })
 
+  it('should increase the state version with every dispatch', () => {
+    const reducer = (state = { value: 0 }, action: any): { value: number } => {
+      if (action.type === 'INCREMENT') {
+        return { value: state.value + 1 }
+      }
+      return state
+    }
+
+    const store = createStore(reducer, enhancer)
+    const versions: number[] = []
+
+    store.subscribeAction((_action, _stateSnapshot, { version }) => {
+      versions.push(version)
+    })
+
+    const initialVersion = store.getStateVersion()
+    store.dispatch({ type: 'INCREMENT' })
+    store.dispatch({ type: 'OTHER' })
+
+    expect(versions).toEqual([initialVersion + 1, initialVersion + 2])
+    expect(store.getStateVersion()).toBe(initialVersion + 2)
+  })
+
+  it('should provide the exact post-reducer state to nested dispatches', () => {
+    const reducer = (state = { value: 0 }, action: any): { value: number } => {
+      if (action.type === 'INCREMENT') {
+        return { value: state.value + 1 }
+      }
+      return state
+    }
+
+    const store = createStore(reducer, enhancer)
+    const received: any[] = []
+
+    store.subscribe(() => {
+      // Dispatches again before subscribeAction listeners see the first action
+      if (store.getState().value === 1) store.dispatch({ type: 'INCREMENT' })
+    })
+    store.subscribeAction((_action, _stateSnapshot, dispatched) => {
+      received.push(dispatched)
+    })
+
+    store.dispatch({ type: 'INCREMENT' })
+
+    expect(received).toEqual([
+      { version: 3, state: { value: 2 } },
+      { version: 2, state: { value: 1 } },
+    ])
+  })
+
+  it('should keep versioning states after the reducer is replaced', () => {
+    const store = createStore((state: number = 0) => state, enhancer)
+    const listener = vi.fn()
+    store.subscribeAction(listener)
+
+    store.replaceReducer((state: number = 0, action: any) =>
+      action.type === 'INCREMENT' ? state + 1 : state,
+    )
+    const version = store.getStateVersion()
+    store.dispatch({ type: 'INCREMENT' })
+
+    expect(listener).toHaveBeenLastCalledWith({ type: 'INCREMENT' }, 0, {
+      version: version + 1,
+      state: 1,
+    })
+  })
+
   it('should support multiple listeners', () => {
     const reducer = (state = {}): object => state
     const store = createStore(reducer, enhancer)
@@ -92,9 +163,10 @@ describe('subscribeStoreActionEnhancerFactory', () => {
     const action = { type: 'TEST' }
     store.dispatch(action)
 
-    expect(listener1).toHaveBeenCalledWith(action, {})
-    expect(listener2).toHaveBeenCalledWith(action, {})
-    expect(listener3).toHaveBeenCalledWith(action, {})
+    const dispatched = { version: 2, state: {} }
+    expect(listener1).toHaveBeenCalledWith(action, {}, dispatched)
+    expect(listener2).toHaveBeenCalledWith(action, {}, dispatched)
+    expect(listener3).toHaveBeenCalledWith(action, {}, dispatched)
   })
 
   it('should support unsubscribing listeners', () => {
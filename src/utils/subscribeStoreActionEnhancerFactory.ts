@@ -1,8 +1,16 @@
-import { StoreEnhancer, UnknownAction } from 'redux'
+import { Reducer, StoreEnhancer, UnknownAction } from 'redux'
+
+export interface DispatchedState {
+  /** Increases with every reducer run, so later dispatches have higher versions */
+  readonly version: number
+  /** The state returned by the reducer, before any nested dispatch ran */
+  readonly state: unknown
+}
 
 export type ActionListener = (
   action: UnknownAction,
   stateSnapshot: unknown,
+  dispatched: DispatchedState,
 ) => void
 
 export type SubscribeStoreActionFn = (listener: ActionListener) => () => void
@@ -10,21 +18,55 @@ export type SubscribeStoreActionFn = (listener: ActionListener) => () => void
 export const subscribeStoreActionEnhancerFactory =
   (): StoreEnhancer<{
     subscribeAction: SubscribeStoreActionFn
+    getStateVersion: () => number
   }> =>
   next => {
     return (reducer, preloadedState) => {
       let listeners: ActionListener[] = []
 
-      const store = next(reducer, preloadedState)
+      let version = 0
+      // One entry per dispatch in progress, nested dispatches push on top
+      const pending: { dispatched?: DispatchedState }[] = []
+
+      const versioned = <S, A extends UnknownAction, P>(
+        reducer: Reducer<S, A, P>,
+      ): Reducer<S, A, P> => {
+        return (state, action) => {
+          const nextState = reducer(state, action)
+          version += 1
+
+          const current = pending[pending.length - 1]
+          if (current && !current.dispatched) {
+            current.dispatched = { version, state: nextState }
+          }
+
+          return nextState
+        }
+      }
+
+      const store = next(versioned(reducer), preloadedState)
 
       return {
         ...store,
         dispatch: action => {
           const stateSnapshot = store.getState()
-          const res = store.dispatch(action)
+
+          const current: { dispatched?: DispatchedState } = {}
+          pending.push(current)
+          let res: typeof action
+          try {
+            res = store.dispatch(action)
+          } finally {
+            pending.splice(pending.indexOf(current), 1)
+          }
+
+          const dispatched = current.dispatched ?? {
+            version,
+            state: store.getState(),
+          }
           listeners.forEach(listener => {
             try {
-              listener(action, stateSnapshot)
+              listener(action, stateSnapshot, dispatched)
             } catch (error) {
               // Silently catch listener errors to prevent them from breaking dispatch
               console.error('Error in action listener:', error)
@@ -32,6 +74,9 @@ export const subscribeStoreActionEnhancerFactory =
           })
           return res
         },
+        replaceReducer: nextReducer => {
+          store.replaceReducer(versioned(nextReducer))
+        },
         subscribeAction: listener => {
           listeners.push(listener)
 
@@ -39,6 +84,7 @@ export const subscribeStoreActionEnhancerFactory =
             listeners = listeners.filter(l => l !== listener)
           }
         },
+        getStateVersion: () => version,
       }
     }
   }
@@ -0,0 +1,150 @@
+import { Effect, Exit, Fiber, Schedule, TestClock, TestContext } from 'effect'
+import { describe, expect, it, vi } from 'vitest'
+import { combineSagas } from './effectSagaEnhancerFactory'
+import { EndOfStream } from './endOfStream'
+import { SagaErrorReporter, supervise } from './supervise'
+
+describe('supervise', () => {
+  const failingSaga = (runs: { count: number }): Effect.Effect<never, string> =>
+    Effect.suspend(() => {
+      runs.count += 1
+      return Effect.fail(`failure ${runs.count}`)
+    })
+
+  it('should propagate failures with escalate', async () => {
+    const report = vi.fn()
+    const runs = { count: 0 }
+
+    const exit = await Effect.runPromiseExit(
+      supervise(failingSaga(runs), { policy: { strategy: 'escalate' } }).pipe(
+        Effect.provideService(SagaErrorReporter, report),
+      ),
+    )
+
+    expect(exit).toEqual(Exit.fail('failure 1'))
+    expect(report).not.toHaveBeenCalled()
+  })
+
+  it('should report failures and keep siblings running with isolate', async () => {
+    const report = vi.fn()
+    const runs = { count: 0 }
+    let siblingDone = false
+
+    await Effect.runPromise(
+      combineSagas(
+        supervise(failingSaga(runs), {
+          name: 'failing',
+          policy: { strategy: 'isolate' },
+        }),
+        Effect.sleep('10 millis').pipe(
+          Effect.andThen(() => {
+            siblingDone = true
+          }),
+        ),
+      ).pipe(Effect.provideService(SagaErrorReporter, report)),
+    )
+
+    expect(siblingDone).toBe(true)
+    expect(runs.count).toBe(1)
+    expect(report).toHaveBeenCalledTimes(1)
+    expect(report).toHaveBeenCalledWith(Exit.fail('failure 1'), {
+      name: 'failing',
+      restarts: 0,
+    })
+  })
+
+  it('should restart following the schedule and report restart counts', async () => {
+    const report = vi.fn()
+    const runs = { count: 0 }
+
+    const program = Effect.gen(function* () {
+      const fiber = yield* Effect.fork(
+        supervise(failingSaga(runs), {
+          name: 'feature',
+          policy: {
+            strategy: 'restart',
+            schedule: Schedule.spaced('1 second').pipe(
+              Schedule.intersect(Schedule.recurs(2)),
+            ),
+          },
+        }),
+      )
+
+      yield* TestClock.adjust('500 millis')
+      expect(runs.count).toBe(1)
+
+      yield* TestClock.adjust('2 seconds')
+      yield* Fiber.join(fiber)
+    })
+
+    await Effect.runPromise(
+      program.pipe(
+        Effect.provideService(SagaErrorReporter, report),
+        Effect.provide(TestContext.TestContext),
+      ),
+    )
+
+    expect(runs.count).toBe(3)
+    expect(report.mock.calls.map(([, info]) => info)).toEqual([
+      { name: 'feature', restarts: 0 },
+      { name: 'feature', restarts: 1 },
+      { name: 'feature', restarts: 2 },
+    ])
+  })
+
+  it('should restart on defects', async () => {
+    const report = vi.fn()
+    let runs = 0
+
+    const result = await Effect.runPromise(
+      supervise(
+        Effect.suspend(() => {
+          runs += 1
+          return runs < 2 ? Effect.die('defect') : Effect.succeed('done')
+        }),
+        { policy: { strategy: 'restart', schedule: Schedule.forever } },
+      ).pipe(Effect.provideService(SagaErrorReporter, report)),
+    )
+
+    expect(result).toBe('done')
+    expect(report).toHaveBeenCalledTimes(1)
+  })
+
+  it('should complete sagas ended by EndOfStream without restarting them', async () => {
+    const report = vi.fn()
+    let runs = 0
+
+    const exit = await Effect.runPromiseExit(
+      supervise(
+        Effect.suspend(() => {
+          runs += 1
+          return Effect.fail(new EndOfStream())
+        }),
+        { policy: { strategy: 'restart', schedule: Schedule.forever } },
+      ).pipe(Effect.provideService(SagaErrorReporter, report)),
+    )
+
+    expect(exit).toEqual(Exit.void)
+    expect(runs).toBe(1)
+    expect(report).not.toHaveBeenCalled()
+  })
+
+  it('should not restart interrupted sagas', async () => {
+    const report = vi.fn()
+    let runs = 0
+
+    const exit = await Effect.runPromiseExit(
+      supervise(
+        Effect.suspend(() => {
+          runs += 1
+          return Effect.interrupt
+        }),
+        { policy: { strategy: 'restart', schedule: Schedule.forever } },
+      ).pipe(Effect.provideService(SagaErrorReporter, report)),
+    )
+
+    expect(Exit.isInterrupted(exit)).toBe(true)
+    expect(runs).toBe(1)
+    expect(report).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,104 @@
+import { Cause, Context, Effect, Exit, Option, Schedule } from 'effect'
+import { isEndOfStreamCause } from './endOfStream'
+
+export interface SagaErrorInfo {
+  /** Name of the failed saga, e.g. the key it was injected with */
+  readonly name?: string | undefined
+  /** How many times the saga was restarted before this failure */
+  readonly restarts: number
+}
+
+export type SagaErrorHandler = (
+  exit: Exit.Failure<any, any>,
+  info: SagaErrorInfo,
+) => void
+
+export const defaultRunnerErrorHandler: SagaErrorHandler = exit => {
+  console.groupCollapsed('[effect-saga] Unhandled saga error:')
+  console.error(Cause.pretty(exit.cause))
+  console.error(exit)
+  console.groupEnd()
+}
+
+/**
+ * Receives the failures of supervised sagas, the saga runner provides its
+ * `onError` option
+ */
+export class SagaErrorReporter extends Context.Reference<SagaErrorReporter>()(
+  'SagaErrorReporter',
+  { defaultValue: (): SagaErrorHandler => defaultRunnerErrorHandler },
+) {}
+
+/**
+ * What happens when a supervised saga fails (interruptions are never
+ * handled, and `EndOfStream` completes the saga):
+ *
+ * - `escalate` (default): the failure propagates, e.g. `combineSagas`
+ *   interrupts the sibling sagas
+ * - `isolate`: the failure is reported and the saga stops, without affecting
+ *   other sagas
+ * - `restart`: the failure is reported and the saga runs again, as long as
+ *   the schedule allows it; once the schedule is done, the saga is isolated
+ */
+export type SupervisionPolicy =
+  | { readonly strategy: 'escalate' }
+  | { readonly strategy: 'isolate' }
+  | {
+      readonly strategy: 'restart'
+      readonly schedule: Schedule.Schedule<unknown, unknown>
+    }
+
+export interface SuperviseOptions {
+  policy: SupervisionPolicy
+  /** Reported along with failures */
+  name?: string
+}
+
+/**
+ * Runs the saga under a supervision policy, reporting its failures to the
+ * `SagaErrorReporter` along with the number of restarts
+ *
+ * @example
+ * combineSagas(
+ *   supervise(chatSaga, {
+ *     name: 'chat',
+ *     policy: { strategy: 'restart', schedule: Schedule.spaced('1 second') },
+ *   }),
+ *   supervise(analyticsSaga, { policy: { strategy: 'isolate' } }),
+ * )
+ */
+export const supervise = <A, E, R>(
+  saga: Effect.Effect<A, E, R>,
+  options: SuperviseOptions,
+): Effect.Effect<A | void, E, R> => {
+  const { policy, name } = options
+
+  if (policy.strategy === 'escalate') return saga
+
+  return Effect.gen(function* () {
+    const report = yield* SagaErrorReporter
+    const driver =
+      policy.strategy === 'restart'
+        ? yield* Schedule.driver(policy.schedule)
+        : undefined
+
+    let restarts = 0
+
+    while (true) {
+      const exit = yield* Effect.exit(saga)
+
+      if (Exit.isSuccess(exit)) return exit.value
+      if (isEndOfStreamCause(exit.cause)) return
+      if (Cause.isInterruptedOnly(exit.cause)) return yield* exit
+
+      report(exit, { name, restarts })
+
+      if (!driver) return
+
+      const next = yield* Effect.option(driver.next(exit.cause))
+      if (Option.isNone(next)) return
+
+      restarts += 1
+    }
+  })
+}